@@ -5,27 +5,87 @@
 
 import {
   generateElGamalKeypair,
+  deriveElGamalKeypair,
   encryptAmount,
+  decryptAmount as decryptWithKey,
   parseAmount,
-  STORAGE_KEYS,
   API_URL,
   generateRandomSecret,
   generateRandomSalt,
   addressToFieldElement,
   computePaymentCommitment,
   computePaymentNullifier,
+  getLogger,
+  KEY_DERIVATION_MESSAGE,
+  ProofDeadlineExpiredError,
+  CommitmentNotRegisteredError,
+  InvalidMerkleProofError,
+  ShadowPayError,
+  verifyMerklePath,
 } from '@shadowpay/core';
-import type { ElGamalKeypair } from '@shadowpay/core';
+import type { ElGamalKeypair, EncryptedAmount, Logger } from '@shadowpay/core';
 import { generateProof } from './proof-generator';
-import { ShadowPayAPI, type AuthorizeResponse } from './api-client';
-import { detectWallet, getPublicKey, isWalletConnected } from './wallet-adapter';
+import type { ProverOptions } from './prover';
+import { CircuitArtifactManager, getDefaultArtifactManager } from './circuit-artifacts';
+import { ShadowPayAPI, type MerchantKeyInfoResponse, type MerkleProofResponse } from './api-client';
+import { ShadowID } from './shadowid';
+import { createAbortScope, type AbortOptions } from './abort';
+import { assertMerchantWallet, buildQuote, PreflightError, type PaymentQuote } from './quote';
+import {
+  resolvePaymentReference,
+  commitmentValue,
+  pollUntilSettled,
+  type PaymentReference,
+  type PaymentStatusResult,
+  type WaitForSettlementOptions,
+} from './settlement-status';
+import {
+  createDefaultHistoryStore,
+  queryPaymentHistory,
+  exportPaymentHistory,
+  type PaymentHistoryStore,
+  type PaymentHistoryQuery,
+  type PaymentHistoryPage,
+} from './payment-history';
+import {
+  parseX402Response,
+  selectPaymentRequirement,
+  encodePaymentHeader,
+  X402PaymentError,
+  type X402FetchOptions,
+} from './x402';
+import {
+  detectWallet,
+  getPublicKey,
+  isWalletConnected,
+  signMessage,
+  WalletError,
+  type WalletInterface,
+} from './wallet-adapter';
+import { createDefaultKeyStore, type KeyStore } from './key-store';
+import { encryptKeyBackup, decryptKeyBackup } from './key-backup';
+import {
+  createDefaultSettlementStore,
+  isBeforeProofDeadline,
+  type SettlementStore,
+  type PendingSettlement,
+} from './settlement-store';
+import {
+  PaymentEventEmitter,
+  type PaymentEvent,
+  type PaymentEventType,
+  type PaymentEventListener,
+  type PaymentStage,
+} from './payment-events';
 import type { 
   ShadowPayOptions, 
   PaymentOptions, 
   PaymentResult,
   Settlement,
   StoredKeys,
+  RetiredKeys,
   PaymentHistory,
+  ResumeSummary,
 } from './types';
 
 /**
@@ -53,79 +113,120 @@ import type {
  * ```
  */
 export class ShadowPay {
+  readonly shadowId: ShadowID; // ShadowID registration for payer wallets
   private merchantKey: string;
   private merchantWallet: string;
   private apiUrl: string;
   private api: ShadowPayAPI;
+  private fetcher: typeof fetch;
+  private keyStore: KeyStore;
+  private keyDerivation: 'random' | 'wallet';
+  private prover: Omit<ProverOptions, 'signal'>;
+  private artifacts: CircuitArtifactManager;
+  private logger: Logger;
+  private preflightOnPay: boolean;
+  private isTrustedRoot?: ShadowPayOptions['isTrustedRoot'];
+  private merchantInfo?: Promise<MerchantKeyInfoResponse>; // Cached once the merchant wallet is verified
+  private preflightUnavailable = false; // The backend has no merchant key info route; pay() skips the check
+  private settlementStore: SettlementStore;
+  private historyStore: PaymentHistoryStore;
+  private events: PaymentEventEmitter;
+  private settling = new Set<string>(); // paymentIds with a settlement in progress
   
   constructor(options: ShadowPayOptions) {
     this.merchantKey = options.merchantKey;
     this.merchantWallet = options.merchantWallet;
     this.apiUrl = options.apiUrl || API_URL;
-    this.api = new ShadowPayAPI(this.apiUrl);
+    this.logger = options.logger || getLogger();
+    this.preflightOnPay = options.preflight ?? true;
+    this.isTrustedRoot = options.isTrustedRoot;
+    this.fetcher = options.fetch || ((input, init) => fetch(input, init));
+    this.api = new ShadowPayAPI(this.apiUrl, { logger: this.logger, retry: options.retry, fetch: options.fetch });
+    this.shadowId = new ShadowID({ api: this.api, cache: options.shadowIdCache, logger: this.logger });
+    this.events = new PaymentEventEmitter(this.logger);
+    this.keyStore = options.keyStore || createDefaultKeyStore();
+    this.keyDerivation = options.keyDerivation || 'random';
+    this.settlementStore = options.settlementStore || createDefaultSettlementStore(this.logger);
+    this.historyStore = options.historyStore || createDefaultHistoryStore(this.logger);
+    this.prover = options.prover || {};
+    this.artifacts = options.artifactCache || options.circuit || options.fetch
+      ? new CircuitArtifactManager({
+          cache: options.artifactCache,
+          sources: options.circuit,
+          fetch: options.fetch,
+          logger: this.logger,
+        })
+      : getDefaultArtifactManager();
+    
+    if (options.prefetchCircuit) {
+      // A failed prefetch is retried when the first proof loads the artifacts
+      this.prefetchCircuit().catch(() => undefined);
+    }
+    
+    if (options.autoResumeSettlements) {
+      // Failures are reported through 'failed' events
+      this.resumePendingSettlements().catch(() => undefined);
+    }
   }
   
   /**
-   * Auto-register user's wallet in ShadowID tree (one-time, on first connect)
-   * Backend handles if already registered
+   * Subscribe to lifecycle events of every payment made by this client
+   * 
+   * @example
+   * ```typescript
+   * shadowpay.on('proof-started', ({ paymentId }) => setProgress(paymentId, 50));
+   * shadowpay.on('failed', ({ stage, error }) => showError(stage, error));
+   * ```
    * 
-   * @param wallet - Solana wallet adapter
-   * @returns User's commitment in the ShadowID tree
+   * @param type - Event type
+   * @param listener - Called with the typed event payload
+   * @returns Function that removes the listener
    */
-  private async autoRegisterWallet(wallet: any): Promise<string> {
-    const walletAddress = getPublicKey(wallet);
-    
-    try {
-      console.log('🔐 Ensuring ShadowID registration...');
-      
-      // Auto-register (backend handles if already registered)
-      const registerResponse = await fetch(
-        `${this.apiUrl}/shadowpay/api/shadowid/auto-register`, // ✅ Correct path
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            wallet_address: walletAddress
-          })
-        }
-      );
-      
-      if (!registerResponse.ok) {
-        const error = await registerResponse.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(`Failed to register with ShadowID: ${error.error || registerResponse.statusText}`);
-      }
-      
-      const result = await registerResponse.json();
-      
-      if (result.registered) {
-        console.log('✅ Wallet registered in ShadowID tree');
-        console.log(`   Commitment: ${result.commitment.substring(0, 16)}...`);
-        console.log(`   Root: ${result.root.substring(0, 16)}...`);
-      }
-      
-      return result.commitment;
-    } catch (error) {
-      console.error('❌ ShadowID registration failed:', error);
-      throw error;
-    }
+  on<K extends PaymentEventType>(type: K, listener: PaymentEventListener<K>): () => void {
+    return this.events.on(type, listener);
+  }
+  
+  /**
+   * Remove a lifecycle event listener
+   */
+  off<K extends PaymentEventType>(type: K, listener: PaymentEventListener<K>): void {
+    this.events.off(type, listener);
   }
   
   /**
    * Make instant payment (100-200ms, user gets access immediately!)
    * ZK proof generated in background (non-blocking)
    * 
-   * @param options - Payment options (amount, token, wallet, callback)
+   * `timeoutMs` bounds the time until this resolves; `signal` also cancels the
+   * background proof (the payment stays pending and can be resumed)
+   * 
+   * @param options - Payment options (amount, token, wallet, callbacks, signal, timeout)
    * @returns Payment result with access token (instant!)
    */
   async pay(options: PaymentOptions): Promise<PaymentResult> {
+    const paymentId = generateRandomSecret().slice(2, 34);
+    const emit = this.createEmitter(options.onEvent);
+    const scope = createAbortScope(options);
+    let stage: PaymentStage = 'registration';
+    
     try {
-      console.log('💰 Starting instant payment flow...');
-      
       // Validate inputs
       this.validatePaymentOptions(options);
       
       const token = options.token?.toUpperCase() || 'SOL';
       
+      if (this.preflightOnPay && !this.preflightUnavailable) {
+        stage = 'preflight';
+        await this.preflight({ signal: scope.signal }).catch(error => {
+          if (!(error instanceof PreflightError && error.code === 'preflight-unavailable')) {
+            throw error;
+          }
+          this.preflightUnavailable = true;
+          this.logger.warn('Merchant key info is not available from this backend; paying without the merchant wallet check');
+        });
+        stage = 'registration';
+      }
+      
       // 1. Check wallet connection
       const wallet = detectWallet(options.wallet);
       if (!wallet || !isWalletConnected(wallet)) {
@@ -133,16 +234,26 @@ export class ShadowPay {
       }
       
       const userWallet = getPublicKey(wallet);
-      console.log('💰 User wallet:', userWallet);
       
-      const senderCommitmentHex = await this.autoRegisterWallet(wallet);
-      console.log('✅ Using registered ShadowID commitment:', senderCommitmentHex.substring(0, 20) + '...');
+      if (this.keyDerivation === 'random') {
+        // Settlement needs the keys: fail before any request if they can't be stored
+        await this.getOrCreateKeys();
+      }
+      
+      this.logger.debug('Ensuring ShadowID registration');
+      const registration = await this.shadowId.ensureRegistered(userWallet, { signal: scope.signal });
+      const senderCommitmentHex = registration.commitment;
+      emit('registered', { paymentId, senderCommitment: senderCommitmentHex });
+      
+      if (this.keyDerivation === 'wallet') {
+        await this.ensureWalletKeys(wallet);
+      }
       
       // 2. Convert amount to lamports
+      stage = 'authorization';
       const lamports = parseAmount(options.amount, token);
-      console.log('💵 Amount:', options.amount, token, '=', lamports, 'lamports');
       
-      console.log('🔐 Generating cryptographic commitments...');
+      // 3. Generate cryptographic commitments
       const senderSecret = generateRandomSecret();
       const salt = generateRandomSalt();
       const receiverCommitment = addressToFieldElement(this.merchantWallet);
@@ -158,13 +269,8 @@ export class ShadowPay {
         paymentCommitment
       );
       
-      console.log('✅ Crypto values generated:', {
-        senderCommitment: senderCommitmentHex.substring(0, 20) + '...',
-        paymentCommitment: paymentCommitment.substring(0, 20) + '...',
-        paymentNullifier: paymentNullifier.substring(0, 20) + '...',
-      });
-      
-      console.log('🔍 Authorizing payment...');
+      // 4. Authorize (instant access)
+      scope.throwIfAborted();
       const auth = await this.api.authorize({
         apiKey: this.merchantKey,
         userWallet,
@@ -172,82 +278,431 @@ export class ShadowPay {
         amount: lamports,
         paymentCommitment,
         paymentNullifier,
-      });
+      }, { signal: scope.signal });
       
-      console.log('✅ Payment authorized!');
+      emit('authorized', {
+        paymentId,
+        commitment: auth.commitment,
+        accessToken: auth.access_token,
+        expiresAt: auth.expires_at,
+        proofDeadline: auth.proof_deadline,
+      });
       
       const result: PaymentResult = {
+        paymentId,
         accessToken: auth.access_token,
         commitment: auth.commitment,
         status: 'authorized',
         proofPending: true,
       };
       
-      console.log('🔐 Generating ZK proof in background...');
-      
-      this.generateAndSubmitProof({
+      // 5. Persist everything needed to finish settlement after a reload
+      const pending: PendingSettlement = {
+        paymentId,
         auth,
         senderSecret,
         senderCommitment: senderCommitmentHex,
+        userWallet,
         receiverCommitment,
         paymentCommitment,
         paymentNullifier,
         salt,
         lamports,
+        amount: options.amount,
         token,
-      })
+        merchantKey: this.merchantKey,
+        merchantWallet: this.merchantWallet,
+        createdAt: Date.now(),
+      };
+      
+      try {
+        await this.settlementStore.save(pending);
+      } catch (error) {
+        this.logger.warn('Failed to persist pending settlement', error);
+      }
+      await this.recordHistory(pending, { status: 'authorized' });
+      
+      // 6. Generate ZK proof and settle in background
+      this.settle(pending, emit, options.detachSettlement ? undefined : options.signal)
         .then(settlement => {
-          console.log('✅ Settlement complete:', settlement.signature);
           result.status = 'settled';
           result.proofPending = false;
           result.settlement = settlement;
           
-          // Store in history
-          this.savePaymentHistory({
-            timestamp: Date.now(),
-            amount: options.amount,
-            token,
-            recipient: this.merchantKey,
-            signature: settlement.signature,
-            nullifier: auth.nullifier,
-          });
-          
           // Callback if provided
           options.onProofComplete?.(settlement);
         })
         .catch(error => {
-          console.error('❌ Background proof generation failed:', error);
-          result.status = 'authorized';
+          // Already reported through the 'failed' event
+          result.status = 'failed';
           result.proofPending = false;
+          result.error = error;
         });
       
       return result;
     } catch (error) {
-      console.error('❌ Payment failed:', error);
+      const failure = scope.signal.aborted ? scope.error() : error;
+      emit('failed', { paymentId, stage, error: toError(failure) });
+      throw failure;
+    } finally {
+      scope.dispose();
+    }
+  }
+  
+  /**
+   * Confirm the merchant configuration before paying
+   * Checks that merchantWallet is the wallet registered for merchantKey (cached after success)
+   * 
+   * @param options - Abort signal and timeout
+   * @returns Merchant key info
+   * @throws PreflightError if merchantWallet doesn't match, or 'preflight-unavailable' if the backend has no key info route
+   */
+  async preflight(options: AbortOptions = {}): Promise<MerchantKeyInfoResponse> {
+    if (!this.merchantInfo) {
+      this.merchantInfo = this.api.getMerchantKeyInfo(this.merchantKey, options)
+        .catch(error => {
+          if (error instanceof ShadowPayError && error.statusCode === 404) {
+            throw new PreflightError('preflight-unavailable', 'This backend does not serve merchant key info');
+          }
+          throw error;
+        })
+        .then(info => {
+          assertMerchantWallet(info, this.merchantWallet);
+          return info;
+        })
+        .catch(error => {
+          this.merchantInfo = undefined;
+          throw error;
+        });
+    }
+    return this.merchantInfo;
+  }
+  
+  /**
+   * Quote a payment without moving funds
+   * Runs the preflight check, confirms the token is supported and computes exact amounts
+   * 
+   * @example
+   * ```typescript
+   * const quote = await shadowpay.quote({ amount: 5, token: 'USDC' });
+   * console.log(quote.totalLamports, quote.merchantWallet);
+   * ```
+   * 
+   * @param params - Amount and token (default: 'SOL')
+   * @param options - Abort signal and timeout
+   * @returns Payment quote
+   */
+  async quote(
+    params: { amount: number; token?: string },
+    options: AbortOptions = {}
+  ): Promise<PaymentQuote> {
+    const [info, supported] = await Promise.all([
+      this.preflight(options),
+      this.api.getSupportedTokens(options).catch(error => {
+        this.logger.warn('Failed to load supported tokens, using bundled list', error);
+        return undefined;
+      }),
+    ]);
+    
+    return buildQuote({
+      amount: params.amount,
+      token: params.token || 'SOL',
+      merchantWallet: this.merchantWallet,
+      info,
+      supported,
+    });
+  }
+  
+  /**
+   * fetch() that pays x402 challenges automatically
+   * On a 402 it picks a requirement within budget, pays it, and retries with the X-PAYMENT header
+   * 
+   * @example
+   * ```typescript
+   * const response = await shadowpay.fetch('https://api.example.com/premium', {}, {
+   *   maxAmount: { SOL: 0.01 },
+   *   wallet,
+   * });
+   * ```
+   * 
+   * @param input - Request URL or Request
+   * @param init - Request options (init.signal also cancels the payment until it is authorized; settlement continues)
+   * @param options - Budget, accepted tokens/networks and paying wallet
+   * @returns Final response (the retried request's response after paying)
+   * @throws WalletError if there is no connected wallet to pay with
+   */
+  async fetch(
+    input: string | URL | Request,
+    init: RequestInit = {},
+    options: X402FetchOptions = {}
+  ): Promise<Response> {
+    const wallet = this.resolveWallet(options.wallet);
+    if (!wallet || !isWalletConnected(wallet)) {
+      throw new WalletError('shadowpay.fetch() needs a connected wallet to pay with: pass options.wallet');
+    }
+    
+    // Request bodies can only be read once; keep a copy for the paid retry
+    const retryInput = input instanceof Request ? input.clone() : input;
+    
+    const response = await this.fetcher(input, init);
+    if (response.status !== 402) {
+      return response;
+    }
+    
+    const challenge = await parseX402Response(response);
+    if (!challenge) {
+      throw new X402PaymentError('402 response is not an x402 payment challenge');
+    }
+    
+    const { requirement, amount, token } = selectPaymentRequirement(
+      challenge.accepts,
+      this.merchantKey,
+      options
+    );
+    this.logger.debug('Paying x402 challenge', { amount, token, resource: requirement.resource });
+    
+    // The settlement must finish even if the caller gives up on the request it paid for
+    const payment = await this.pay({
+      amount,
+      token,
+      wallet,
+      signal: init.signal ?? undefined,
+      detachSettlement: true,
+      onEvent: options.onEvent,
+    });
+    options.onPayment?.(payment, requirement);
+    
+    const headers = new Headers(init.headers ?? (retryInput instanceof Request ? retryInput.headers : undefined));
+    headers.set('X-PAYMENT', encodePaymentHeader(requirement, payment));
+    
+    return this.fetcher(retryInput, { ...init, headers });
+  }
+  
+  /**
+   * Download and cache the circuit artifacts ahead of the first payment
+   * Later proofs load them from the cache after an integrity check
+   */
+  async prefetchCircuit(): Promise<void> {
+    await this.artifacts.prefetch();
+  }
+  
+  /**
+   * Finish settlements left pending by earlier sessions (e.g. the user navigated away)
+   * Call on startup; jobs past their proof deadline are dropped
+   * 
+   * @returns Counts of settled, failed and expired settlements
+   */
+  async resumePendingSettlements(): Promise<ResumeSummary> {
+    const summary: ResumeSummary = { settled: 0, failed: 0, expired: 0 };
+    const pending = await this.settlementStore.list();
+    const emit = this.createEmitter();
+    
+    await Promise.all(pending.map(async job => {
+      if (this.settling.has(job.paymentId)) {
+        return;
+      }
+      
+      if (!isBeforeProofDeadline(job)) {
+        summary.expired++;
+        await this.settlementStore.remove(job.paymentId);
+        emit('failed', {
+          paymentId: job.paymentId,
+          commitment: job.auth.commitment,
+          stage: 'settlement',
+          error: new Error('Proof deadline passed before settlement could be resumed'),
+        });
+        return;
+      }
+      
+      try {
+        await this.settle(job, emit);
+        summary.settled++;
+      } catch (error) {
+        summary.failed++;
+      }
+    }));
+    
+    return summary;
+  }
+
+  /**
+   * Check whether a payment has settled on-chain
+   * Access tokens work from any tab or process; commitments need this client's
+   * pending settlements or payment history
+   *
+   * @param reference - Access token or payment commitment
+   * @param options - Abort signal and timeout
+   * @returns Settlement status and whether the token still grants access
+   */
+  async getPaymentStatus(reference: PaymentReference, options: AbortOptions = {}): Promise<PaymentStatusResult> {
+    const resolved = resolvePaymentReference(reference);
+    if ('accessToken' in resolved) {
+      return this.fetchPaymentStatus(resolved.accessToken, options);
+    }
+
+    const commitment = commitmentValue(resolved.commitment);
+    if (commitment === null) {
+      throw new Error(`${resolved.commitment} is not a payment commitment`);
+    }
+    const pending = (await this.settlementStore.list()).find(job =>
+      commitmentValue(job.auth.commitment) === commitment || commitmentValue(job.paymentCommitment) === commitment
+    );
+    if (pending) {
+      return this.fetchPaymentStatus(pending.auth.access_token, options);
+    }
+
+    const { items } = await this.getPaymentHistory();
+    const record = items.find(item => commitmentValue(item.commitment) === commitment);
+    if (record?.status === 'settled') {
+      return { status: 'settled', authorized: true, commitment: record.commitment };
+    }
+    if (record?.status === 'failed') {
+      return { status: 'authorized', authorized: false, reason: record.error, commitment: record.commitment };
+    }
+
+    throw new Error(`No access token known for commitment ${resolved.commitment}; pass the access token instead`);
+  }
+
+  /**
+   * Wait until a payment is settled on-chain (e.g. before shipping an order)
+   *
+   * @example
+   * ```typescript
+   * await shadowpay.waitForSettlement(payment.accessToken, { timeout: 120_000 });
+   * ```
+   *
+   * @param reference - Access token or payment commitment
+   * @param options - timeout and interval in ms, abort signal, onStatus callback
+   * @returns Settled status
+   * @throws SettlementRejectedError if access is revoked before the proof was submitted
+   * @throws RequestAbortedError on timeout or abort
+   */
+  async waitForSettlement(
+    reference: PaymentReference,
+    options: WaitForSettlementOptions = {}
+  ): Promise<PaymentStatusResult> {
+    return pollUntilSettled(signal => this.getPaymentStatus(reference, { signal }), options);
+  }
+
+  /**
+   * Helper: Ask the API for an access token's settlement status
+   */
+  private async fetchPaymentStatus(accessToken: string, options: AbortOptions): Promise<PaymentStatusResult> {
+    const response = await this.api.verifyAccess(accessToken, options);
+    return {
+      status: response.settlement_status,
+      authorized: response.authorized,
+      reason: response.reason,
+      commitment: response.commitment,
+    };
+  }
+
+  /**
+   * Fetch the sender's ShadowID merkle proof
+   * If the tree no longer has the commitment (stale cache), registers again and retries once
+   */
+  private async fetchMerkleProof(params: PendingSettlement, signal?: AbortSignal): Promise<MerkleProofResponse> {
+    try {
+      return await this.api.getMerkleProof(params.senderCommitment, { signal });
+    } catch (error) {
+      if (!(error instanceof CommitmentNotRegisteredError) || !params.userWallet) {
+        throw error;
+      }
+      
+      this.logger.info('Commitment missing from ShadowID tree, registering again');
+      const registration = await this.shadowId.register(params.userWallet, { signal });
+      if (normalizeCommitment(registration.commitment) !== normalizeCommitment(params.senderCommitment)) {
+        throw error; // This payment was authorized with the old commitment; the next one uses the new one
+      }
+      return this.api.getMerkleProof(params.senderCommitment, { signal });
+    }
+  }
+  
+  /**
+   * Check the merkle proof before spending time on a ZK proof
+   * The path must hash to the root, and the root must pass the isTrustedRoot option when set
+   */
+  private async checkMerkleProof(
+    senderCommitment: string,
+    proof: MerkleProofResponse,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const leaf = BigInt('0x' + normalizeCommitment(senderCommitment));
+    if (!(await verifyMerklePath(leaf, proof.siblings, proof.pathIndices, proof.root))) {
+      throw new InvalidMerkleProofError(
+        'Merkle proof from the ShadowID service does not lead to its root',
+        'path-mismatch',
+        proof
+      );
+    }
+    
+    if (this.isTrustedRoot && !(await this.isTrustedRoot(proof.root, { signal }))) {
+      throw new InvalidMerkleProofError(
+        'ShadowID root is not recognized by the trusted root source',
+        'untrusted-root',
+        proof
+      );
+    }
+  }
+  
+  /**
+   * Settle a pending payment and keep the settlement store in sync
+   * The job stays persisted after a failure so it can be resumed before its deadline
+   */
+  private async settle(
+    job: PendingSettlement,
+    emit: PaymentEventEmitter['emit'],
+    signal?: AbortSignal
+  ): Promise<Settlement> {
+    this.settling.add(job.paymentId);
+    
+    try {
+      await this.recordHistory(job, { status: 'settling', error: undefined });
+      const settlement = await this.generateAndSubmitProof(job, emit, signal);
+      
+      await this.settlementStore.remove(job.paymentId).catch(error => {
+        this.logger.warn('Failed to remove settled payment from store', error);
+      });
+      
+      await this.recordHistory(job, {
+        status: 'settled',
+        signature: settlement.signature,
+        settlementTime: settlement.settlementTime,
+      });
+      
+      return settlement;
+    } catch (error) {
+      if (!isBeforeProofDeadline(job) || error instanceof ProofDeadlineExpiredError) {
+        await this.settlementStore.remove(job.paymentId).catch(() => undefined);
+      }
+      await this.recordHistory(job, { status: 'failed', error: toError(error).message });
       throw error;
+    } finally {
+      this.settling.delete(job.paymentId);
     }
   }
   
-  private async generateAndSubmitProof(params: {
-    auth: AuthorizeResponse;
-    senderSecret: string;
-    senderCommitment: string;
-    receiverCommitment: string;
-    paymentCommitment: string;
-    paymentNullifier: string;
-    salt: string;
-    lamports: number;
-    token: string;
-  }): Promise<Settlement> {
+  private async generateAndSubmitProof(
+    params: PendingSettlement,
+    emit: PaymentEventEmitter['emit'],
+    signal?: AbortSignal
+  ): Promise<Settlement> {
+    const { paymentId } = params;
+    const commitment = params.auth.commitment;
+    let stage: PaymentStage = 'merkle-proof';
+    
     try {
-      const userKeys = this.getOrCreateKeys();
+      const userKeys = await this.getOrCreateKeys();
       const encrypted = encryptAmount(BigInt(params.lamports), userKeys.publicKey);
       
-      console.log('   📋 Fetching merkle proof...');
-      const merkleProof = await this.api.getMerkleProof(params.senderCommitment);
-      console.log('   ✅ Merkle proof received');
+      const merkleProof = await this.fetchMerkleProof(params, signal);
+      await this.checkMerkleProof(params.senderCommitment, merkleProof, signal);
+      emit('merkle-proof-fetched', { paymentId, commitment, root: merkleProof.root });
+      
+      stage = 'proving';
+      emit('proof-started', { paymentId, commitment });
+      const provingStartedAt = Date.now();
       
-      console.log('   ⏳ Generating ZK proof...');
       const { proof, publicSignals } = await generateProof({
         senderCommitment: params.senderCommitment,
         senderSecret: params.senderSecret,
@@ -263,50 +718,64 @@ export class ShadowPay {
         shadowidRoot: merkleProof.root,
         maxAmount: BigInt(params.lamports) * 2n,
         receiverElGamalPubkey: userKeys.publicKey.x,
-      });
+      }, { ...this.prover, artifacts: this.artifacts, logger: this.logger, signal });
+      
+      emit('proof-generated', { paymentId, commitment, durationMs: Date.now() - provingStartedAt });
       
-      console.log('   ✅ Proof generated');
-      console.log('   📤 Submitting settlement...');
+      stage = 'settlement';
+      emit('settlement-submitted', { paymentId, commitment });
       const settlement = await this.api.settle({
         commitment: params.paymentCommitment,
         proof: JSON.stringify(proof),
         publicSignals: publicSignals.map(s => s.toString()),
         encryptedAmount: encrypted,
-      });
+      }, { signal });
       
       if (!settlement.success) {
         throw new Error(settlement.error || 'Settlement failed');
       }
       
-      console.log('   ✅ Settled:', settlement.signature);
-      
-      return {
+      const result: Settlement = {
         signature: settlement.signature!,
         settlementTime: settlement.settlement_time,
       };
+      
+      emit('settled', { paymentId, commitment, settlement: result });
+      return result;
     } catch (error) {
-      console.error('Background settlement error:', error);
+      emit('failed', { paymentId, commitment, stage, error: toError(error) });
       throw error;
     }
   }
   
-  private getOrCreateKeys(): ElGamalKeypair {
-    if (typeof window === 'undefined' || !window.localStorage) {
-      throw new Error('localStorage not available. ShadowPay requires browser environment.');
+  /**
+   * Helper: Emit to instance listeners and the per-payment onEvent callback
+   */
+  private createEmitter(onEvent?: (event: PaymentEvent) => void): PaymentEventEmitter['emit'] {
+    const paymentEvents = new PaymentEventEmitter(this.logger);
+    if (onEvent) {
+      paymentEvents.onAny(onEvent);
     }
     
-    const stored = localStorage.getItem(STORAGE_KEYS.ELGAMAL_KEYS);
+    return (type, payload) => {
+      this.events.emit(type, payload);
+      paymentEvents.emit(type, payload);
+    };
+  }
+  
+  private async getOrCreateKeys(): Promise<ElGamalKeypair> {
+    const stored = await this.keyStore.load();
     
     if (stored) {
-      try {
-        const parsed: StoredKeys = JSON.parse(stored);
-        return {
-          privateKey: parsed.privateKey,
-          publicKey: parsed.publicKey,
-        };
-      } catch (error) {
-        console.warn('Failed to parse stored keys, generating new ones');
-      }
+      return {
+        privateKey: stored.privateKey,
+        publicKey: stored.publicKey,
+      };
+    }
+    
+    // Random keys would be unrecoverable on other devices
+    if (this.keyDerivation === 'wallet') {
+      throw new Error('No ElGamal keys stored; call deriveKeysFromWallet() first');
     }
     
     const keys = generateElGamalKeypair();
@@ -317,10 +786,174 @@ export class ShadowPay {
       createdAt: Date.now(),
     };
     
-    localStorage.setItem(STORAGE_KEYS.ELGAMAL_KEYS, JSON.stringify(storedKeys));
+    await this.keyStore.save(storedKeys);
     return keys;
   }
   
+  /**
+   * Remove the stored ElGamal keys
+   * New keys are generated on the next payment
+   */
+  async clearKeys(): Promise<void> {
+    await this.keyStore.clear();
+  }
+  
+  /**
+   * Export ElGamal keys (active and retired) as a passphrase-encrypted backup
+   * 
+   * @param passphrase - Passphrase used to encrypt the backup
+   * @returns Versioned, encrypted backup blob (JSON string)
+   */
+  async exportKeys(passphrase: string): Promise<string> {
+    await this.getOrCreateKeys();
+    const stored = await this.keyStore.load();
+    return encryptKeyBackup(stored!, passphrase);
+  }
+  
+  /**
+   * Restore ElGamal keys from an encrypted backup
+   * Current keys that are not part of the backup are kept as retired keys
+   * 
+   * @param blob - Backup produced by exportKeys()
+   * @param passphrase - Passphrase used for the backup
+   */
+  async importKeys(blob: string, passphrase: string): Promise<void> {
+    const imported = await decryptKeyBackup(blob, passphrase);
+    const current = await this.keyStore.load();
+    
+    const retired: RetiredKeys[] = [...(imported.retiredKeys || [])];
+    if (current) {
+      retired.push(...(current.retiredKeys || []));
+      retired.push({
+        privateKey: current.privateKey,
+        publicKey: current.publicKey,
+        createdAt: current.createdAt,
+        retiredAt: Date.now(),
+      });
+    }
+    
+    await this.keyStore.save({
+      privateKey: imported.privateKey,
+      publicKey: imported.publicKey,
+      createdAt: imported.createdAt,
+      retiredKeys: dedupeRetiredKeys(retired, imported.privateKey),
+    });
+  }
+  
+  /**
+   * Rotate ElGamal keys
+   * The previous keys are retired (not deleted) so earlier amounts stay decryptable
+   * 
+   * @returns New public key
+   */
+  async rotateKeys(): Promise<ElGamalKeypair['publicKey']> {
+    const current = await this.keyStore.load();
+    const keys = generateElGamalKeypair();
+    
+    const retired: RetiredKeys[] = [...(current?.retiredKeys || [])];
+    if (current) {
+      retired.push({
+        privateKey: current.privateKey,
+        publicKey: current.publicKey,
+        createdAt: current.createdAt,
+        retiredAt: Date.now(),
+      });
+    }
+    
+    await this.keyStore.save({
+      privateKey: keys.privateKey,
+      publicKey: keys.publicKey,
+      createdAt: Date.now(),
+      retiredKeys: retired,
+    });
+    
+    return keys.publicKey;
+  }
+  
+  /**
+   * Derive ElGamal keys from a wallet signature and make them the active keys
+   * The same wallet always derives the same keys, so this recovers them on a new
+   * device or after storage is cleared. Different current keys are retired
+   * 
+   * @example
+   * ```typescript
+   * // New device: reconnect the wallet, then decrypt past amounts
+   * await shadowpay.deriveKeysFromWallet(wallet);
+   * const lamports = await shadowpay.decryptAmount(encrypted);
+   * ```
+   * 
+   * @param wallet - Wallet with signMessage support
+   * @returns Derived public key
+   */
+  async deriveKeysFromWallet(wallet: WalletInterface): Promise<ElGamalKeypair['publicKey']> {
+    const walletAddress = getPublicKey(wallet);
+    const signature = await signMessage(wallet, new TextEncoder().encode(KEY_DERIVATION_MESSAGE));
+    const keys = deriveElGamalKeypair(signature);
+    const current = await this.keyStore.load();
+    
+    const retired: RetiredKeys[] = [...(current?.retiredKeys || [])];
+    if (current && current.privateKey !== keys.privateKey) {
+      retired.push({
+        privateKey: current.privateKey,
+        publicKey: current.publicKey,
+        createdAt: current.createdAt,
+        retiredAt: Date.now(),
+      });
+    }
+    
+    await this.keyStore.save({
+      privateKey: keys.privateKey,
+      publicKey: keys.publicKey,
+      createdAt: current?.privateKey === keys.privateKey ? current.createdAt : Date.now(),
+      derivedFrom: walletAddress,
+      retiredKeys: dedupeRetiredKeys(retired, keys.privateKey),
+    });
+    
+    return keys.publicKey;
+  }
+  
+  /**
+   * Helper: Make sure the active keys were derived from this wallet (asks for a signature if not)
+   */
+  private async ensureWalletKeys(wallet: WalletInterface): Promise<void> {
+    const stored = await this.keyStore.load();
+    if (stored?.derivedFrom !== getPublicKey(wallet)) {
+      await this.deriveKeysFromWallet(wallet);
+    }
+  }
+  
+  /**
+   * Decrypt an amount encrypted to one of this user's keys (active or retired)
+   * 
+   * @param encrypted - Encrypted amount (C1, C2)
+   * @param publicKey - Public key the amount was encrypted to (skips trying every key)
+   * @returns Decrypted amount in lamports
+   */
+  async decryptAmount(
+    encrypted: EncryptedAmount,
+    publicKey?: ElGamalKeypair['publicKey']
+  ): Promise<bigint> {
+    const stored = await this.keyStore.load();
+    if (!stored) {
+      throw new Error('No ElGamal keys stored');
+    }
+    
+    const candidates = [stored, ...(stored.retiredKeys || []).slice().reverse()].filter(
+      keys => !publicKey || (keys.publicKey.x === publicKey.x && keys.publicKey.y === publicKey.y)
+    );
+    
+    for (const keys of candidates) {
+      try {
+        return decryptWithKey(encrypted, keys.privateKey);
+      } catch (error) {
+        // Not encrypted to this key, try the next one
+        continue;
+      }
+    }
+    
+    throw new Error('Could not decrypt amount with any stored key');
+  }
+  
   private validatePaymentOptions(options: PaymentOptions): void {
     if (!options.amount || options.amount <= 0) {
       throw new Error('Invalid amount: must be greater than 0');
@@ -336,38 +969,102 @@ export class ShadowPay {
     }
   }
   
-  private savePaymentHistory(payment: PaymentHistory): void {
-    if (typeof window === 'undefined' || !window.localStorage) {
-      return; // Skip if not in browser
-    }
-    
+  /**
+   * Helper: Wallet that pays when none is given explicitly (NodePayer uses its own)
+   */
+  protected resolveWallet(wallet?: WalletInterface): WalletInterface | null {
+    return wallet || null;
+  }
+  
+  /**
+   * Helper: Create or update the history record for a payment
+   * History is best-effort: storage failures are logged, never thrown
+   */
+  private async recordHistory(job: PendingSettlement, update: Partial<PaymentHistory>): Promise<void> {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.PAYMENT_HISTORY);
-      const history: PaymentHistory[] = stored ? JSON.parse(stored) : [];
-      
-      history.push(payment);
-      
-      if (history.length > 100) {
-        history.shift();
-      }
+      const existing = await this.historyStore.get(job.paymentId);
+      const record: PaymentHistory = existing || {
+        paymentId: job.paymentId,
+        timestamp: job.createdAt,
+        updatedAt: job.createdAt,
+        status: 'authorized',
+        amount: job.amount,
+        token: job.token,
+        lamports: job.lamports,
+        recipient: job.merchantWallet,
+        merchantKey: job.merchantKey,
+        commitment: job.auth.commitment,
+        nullifier: job.auth.nullifier,
+      };
       
-      localStorage.setItem(STORAGE_KEYS.PAYMENT_HISTORY, JSON.stringify(history));
+      await this.historyStore.put({ ...record, ...update, updatedAt: Date.now() });
     } catch (error) {
-      console.warn('Failed to save payment history:', error);
+      this.logger.warn('Failed to save payment history', error);
     }
   }
   
-  getPaymentHistory(): PaymentHistory[] {
-    if (typeof window === 'undefined' || !window.localStorage) {
-      return [];
-    }
-    
+  /**
+   * Query payment history
+   * 
+   * @example
+   * ```typescript
+   * const page = await shadowpay.getPaymentHistory({ token: 'USDC', status: 'settled', limit: 20 });
+   * ```
+   * 
+   * @param query - Date range, token, merchant and status filters plus offset/limit
+   * @returns Matching records (newest first) and the total count
+   */
+  async getPaymentHistory(query: PaymentHistoryQuery = {}): Promise<PaymentHistoryPage> {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.PAYMENT_HISTORY);
-      return stored ? JSON.parse(stored) : [];
+      return queryPaymentHistory(await this.historyStore.list(), query);
     } catch (error) {
-      console.warn('Failed to load payment history:', error);
-      return [];
+      this.logger.warn('Failed to load payment history', error);
+      return { items: [], total: 0, offset: query.offset || 0, limit: query.limit };
     }
   }
+  
+  /**
+   * Export payment history as CSV or JSON (e.g. for expense reports)
+   * 
+   * @param format - 'csv' or 'json'
+   * @param query - Optional filters; pagination applies too
+   * @returns Exported text
+   */
+  async exportPaymentHistory(format: 'csv' | 'json', query: PaymentHistoryQuery = {}): Promise<string> {
+    const { items } = queryPaymentHistory(await this.historyStore.list(), query);
+    return exportPaymentHistory(items, format);
+  }
+  
+  /**
+   * Delete all payment history
+   */
+  async clearPaymentHistory(): Promise<void> {
+    await this.historyStore.clear();
+  }
+}
+
+/**
+ * Helper: Normalize thrown values to Error
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Helper: Compare commitments regardless of 0x prefix and case
+ */
+function normalizeCommitment(commitment: string): string {
+  return commitment.replace(/^0x/i, '').toLowerCase();
+}
+
+/**
+ * Helper: Drop duplicate retired keys and the active key from the retired list
+ */
+function dedupeRetiredKeys(keys: RetiredKeys[], activePrivateKey: string): RetiredKeys[] {
+  const seen = new Set<string>([activePrivateKey]);
+  return keys.filter(key => {
+    if (seen.has(key.privateKey)) return false;
+    seen.add(key.privateKey);
+    return true;
+  });
 }
@@ -0,0 +1,104 @@
+/**
+ * Cancellation and timeouts for payments and API calls
+ */
+
+export interface AbortOptions {
+  signal?: AbortSignal; // Cancels the operation
+  timeoutMs?: number; // Gives up after this many milliseconds
+}
+
+/**
+ * A caller's signal and timeout combined into one signal
+ */
+export interface AbortScope {
+  signal: AbortSignal;
+  /** Throw RequestAbortedError if the scope was aborted */
+  throwIfAborted(): void;
+  /** Error describing why the scope was aborted */
+  error(): RequestAbortedError;
+  /** Stop the timer and detach from the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Combine an optional AbortSignal and timeout into a single signal
+ *
+ * @param options - Caller's signal and timeout
+ * @returns Scope whose signal aborts when either fires (call dispose() when done)
+ */
+export function createAbortScope(options: AbortOptions = {}): AbortScope {
+  const controller = new AbortController();
+  const parent = options.signal;
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = options.timeoutMs !== undefined && !controller.signal.aborted
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, options.timeoutMs)
+    : undefined;
+
+  const error = () => timedOut
+    ? new RequestAbortedError(`Timed out after ${options.timeoutMs}ms`, undefined, true)
+    : new RequestAbortedError('Aborted', controller.signal.reason, false);
+
+  return {
+    signal: controller.signal,
+    throwIfAborted: () => {
+      if (controller.signal.aborted) {
+        throw error();
+      }
+    },
+    error,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ *
+ * @param ms - Delay in milliseconds
+ * @param scope - Abort scope to honor
+ */
+export function abortableSleep(ms: number, scope?: AbortScope): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (scope?.signal.aborted) {
+      reject(scope.error());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(scope!.error());
+    };
+    const timer = setTimeout(() => {
+      scope?.signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    scope?.signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Thrown when a payment or API call is aborted or times out
+ */
+export class RequestAbortedError extends Error {
+  constructor(
+    message: string,
+    public reason?: unknown, // Reason passed to AbortController.abort()
+    public timedOut: boolean = false
+  ) {
+    super(message);
+    this.name = 'RequestAbortedError';
+  }
+}
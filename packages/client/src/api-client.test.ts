@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { NetworkError, RateLimitedError } from '@shadowpay/core';
+import { ShadowPayAPI, type AuthorizeRequest } from './api-client';
+
+const AUTHORIZATION = {
+  commitment: '0xabc',
+  nullifier: '0xdef',
+  access_token: 'token',
+  expires_at: 1,
+  proof_deadline: 2,
+};
+
+const REQUEST: AuthorizeRequest = {
+  apiKey: 'api-key',
+  userWallet: 'user',
+  merchantWallet: 'merchant',
+  amount: 1000,
+  paymentCommitment: '0xabc',
+  paymentNullifier: '0xdef',
+};
+
+/**
+ * Fake fetch answering with the given responses in order, recording each request
+ */
+function scriptedFetch(...responses: Array<Response | Error>) {
+  const calls: RequestInit[] = [];
+  const fetcher = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    calls.push(init ?? {});
+    const next = responses.shift();
+    if (!next) {
+      throw new Error('Unexpected request');
+    }
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  }) as typeof fetch;
+  return { fetcher, calls };
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+describe('ShadowPayAPI retries', () => {
+  it('retries retryable statuses with the same Idempotency-Key', async () => {
+    const { fetcher, calls } = scriptedFetch(json({}, 503), json({}, 502), json(AUTHORIZATION));
+    const api = new ShadowPayAPI('https://api.test', { fetch: fetcher, retry: { minDelayMs: 1 } });
+
+    await expect(api.authorize(REQUEST)).resolves.toMatchObject({ access_token: 'token' });
+    expect(calls).toHaveLength(3);
+    const keys = calls.map(init => new Headers(init.headers).get('Idempotency-Key'));
+    expect(keys).toEqual(['shadowpay-authorize-abc', 'shadowpay-authorize-abc', 'shadowpay-authorize-abc']);
+  });
+
+  it('caps Retry-After at maxDelayMs', async () => {
+    const { fetcher, calls } = scriptedFetch(json({}, 429, { 'Retry-After': '3600' }), json(AUTHORIZATION));
+    const api = new ShadowPayAPI('https://api.test', { fetch: fetcher, retry: { maxDelayMs: 20 } });
+
+    const started = Date.now();
+    await api.authorize(REQUEST);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('cancels the body of a discarded response before retrying', async () => {
+    let cancelled = false;
+    const body = new ReadableStream({
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const { fetcher } = scriptedFetch(new Response(body, { status: 503 }), json(AUTHORIZATION));
+    const api = new ShadowPayAPI('https://api.test', { fetch: fetcher, retry: { minDelayMs: 1 } });
+
+    await api.authorize(REQUEST);
+    expect(cancelled).toBe(true);
+  });
+
+  it('does not retry client errors', async () => {
+    const { fetcher, calls } = scriptedFetch(json({ error: 'Bad request' }, 400));
+    const api = new ShadowPayAPI('https://api.test', { fetch: fetcher, retry: { minDelayMs: 1 } });
+
+    await expect(api.authorize(REQUEST)).rejects.toThrow('Authorization failed: Bad request');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('surfaces the last rate limit once retries run out', async () => {
+    const { fetcher, calls } = scriptedFetch(json({}, 429, { 'Retry-After': '0' }), json({}, 429, { 'Retry-After': '2' }));
+    const api = new ShadowPayAPI('https://api.test', { fetch: fetcher, retry: { retries: 1 } });
+
+    const error = await api.authorize(REQUEST).catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.retryAfterMs).toBe(2000);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('retries network failures and then throws NetworkError', async () => {
+    const { fetcher, calls } = scriptedFetch(new TypeError('fetch failed'), new TypeError('fetch failed'));
+    const api = new ShadowPayAPI('https://api.test', { fetch: fetcher, retry: { retries: 1, minDelayMs: 1 } });
+
+    const error = await api.authorize(REQUEST).catch(e => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.statusCode).toBe(0);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('sends each request once when retries are disabled', async () => {
+    const { fetcher, calls } = scriptedFetch(json({}, 503));
+    const api = new ShadowPayAPI('https://api.test', { fetch: fetcher, retry: false });
+
+    await expect(api.authorize(REQUEST)).rejects.toMatchObject({ statusCode: 503 });
+    expect(calls).toHaveLength(1);
+  });
+});
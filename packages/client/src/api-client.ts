@@ -3,8 +3,45 @@
  * Handles payment settlement, verification, and token queries
  */
 
-import { API_URL } from '@shadowpay/core';
-import type { X402PaymentRequirement } from '@shadowpay/core';
+import {
+  API_URL,
+  ENDPOINTS,
+  getLogger,
+  schema,
+  readJsonResponse,
+  createApiError,
+  ShadowPayError,
+  NetworkError,
+  MalformedResponseError,
+  type ApiErrorContext,
+  type X402PaymentRequirement,
+  type Logger,
+} from '@shadowpay/core';
+import { createAbortScope, abortableSleep, RequestAbortedError, type AbortOptions } from './abort';
+
+/**
+ * Retry policy for transient API failures
+ * Network errors and retryable statuses are retried with exponential backoff and full jitter
+ */
+export interface RetryPolicy {
+  retries?: number; // Retries after the first attempt (default: 3)
+  minDelayMs?: number; // Base backoff delay (default: 250)
+  maxDelayMs?: number; // Cap on each delay, including Retry-After (default: 8000)
+  retryOn?: number[]; // Retryable status codes (default: 408, 425, 429, 500, 502, 503, 504)
+}
+
+export interface ShadowPayAPIOptions {
+  logger?: Logger; // Request diagnostics (default: SDK-wide logger)
+  retry?: RetryPolicy | false; // Retry policy, or false to send each request once
+  fetch?: typeof fetch; // Custom fetch (e.g. a sandbox facilitator's); default: global fetch
+}
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  retries: 3,
+  minDelayMs: 250,
+  maxDelayMs: 8000,
+  retryOn: [408, 425, 429, 500, 502, 503, 504],
+};
 
 export interface SettlePaymentRequest {
   x402Version: number;
@@ -82,6 +119,12 @@ export interface MerchantKeyInfoResponse {
   daily_commit_limit: number;
   wallet_address: string; // ✅ Merchant's receiving wallet
   treasury_wallet: string;
+  fee_bps?: number; // Facilitator fee in basis points, when the backend reports one
+}
+
+export interface ShadowIDRegisterResponse {
+  registered?: boolean; // False if the wallet was already in the tree
+  commitment: string; // Sender commitment in the ShadowID tree (hex)
 }
 
 export interface MerkleProofResponse {
@@ -90,6 +133,57 @@ export interface MerkleProofResponse {
   pathIndices: number[]; // Array of path indices
 }
 
+// Response shapes checked at runtime (unknown extra fields are kept)
+const AUTHORIZE_RESPONSE = schema.object<AuthorizeResponse>({
+  commitment: schema.string(),
+  nullifier: schema.string(),
+  access_token: schema.string(),
+  expires_at: schema.number(),
+  proof_deadline: schema.number(),
+});
+
+const ACCESS_VERIFICATION_RESPONSE = schema.object<AccessVerificationResponse>({
+  authorized: schema.boolean(),
+  reason: schema.string(),
+  settlement_status: schema.literal('authorized', 'settling', 'settled'),
+  commitment: schema.optional(schema.string()),
+});
+
+const MERCHANT_KEY_INFO_RESPONSE = schema.object<MerchantKeyInfoResponse>({
+  api_key: schema.string(),
+  rps_limit: schema.number(),
+  daily_commit_limit: schema.number(),
+  wallet_address: schema.string(),
+  treasury_wallet: schema.string(),
+  fee_bps: schema.optional(schema.number()),
+});
+
+const SUPPORTED_TOKENS_RESPONSE = schema.object<SupportedTokensResponse>({
+  tokens: schema.array(schema.object({
+    symbol: schema.string(),
+    mint: schema.string(),
+    decimals: schema.number(),
+  })),
+});
+
+const SETTLE_RESPONSE = schema.object<SettleResponse>({
+  success: schema.boolean(),
+  signature: schema.optional(schema.string()),
+  settlement_time: schema.number(),
+  error: schema.optional(schema.string()),
+});
+
+const SHADOWID_REGISTER_RESPONSE = schema.object<ShadowIDRegisterResponse>({
+  registered: schema.optional(schema.boolean()),
+  commitment: schema.string(),
+});
+
+const MERKLE_PROOF_RESPONSE = schema.object<MerkleProofResponse>({
+  root: schema.string(),
+  siblings: schema.array(schema.string()),
+  pathIndices: schema.array(schema.number()),
+});
+
 /**
  * Helper: Convert hex string to byte array
  * Ensures exactly 32 bytes (padding or truncating as needed)
@@ -118,9 +212,17 @@ function hexToBytes(hex: string): number[] {
  */
 export class ShadowPayAPI {
   private baseUrl: string;
+  private logger: Logger;
+  private retry: Required<RetryPolicy>;
+  private fetcher: typeof fetch;
   
-  constructor(baseUrl: string = API_URL) {
+  constructor(baseUrl: string = API_URL, options: ShadowPayAPIOptions = {}) {
     this.baseUrl = baseUrl;
+    this.logger = options.logger || getLogger();
+    this.fetcher = options.fetch || ((input, init) => fetch(input, init));
+    this.retry = options.retry === false
+      ? { ...DEFAULT_RETRY_POLICY, retries: 0 }
+      : { ...DEFAULT_RETRY_POLICY, ...options.retry };
   }
   
   /**
@@ -133,15 +235,19 @@ export class ShadowPayAPI {
    * Body: { "user_wallet": "AVS...", "merchant": "BdD...", "amount": 1000000 }
    * 
    * @param params - Authorization parameters
+   * @param options - Abort signal and timeout
    * @returns Authorization response with access token
    */
-  async authorize(params: AuthorizeRequest): Promise<AuthorizeResponse> {
+  async authorize(params: AuthorizeRequest, options: AbortOptions = {}): Promise<AuthorizeResponse> {
+    this.logger.debug('Authorizing payment', { amount: params.amount });
+    
     try {
-      const response = await fetch(`${this.baseUrl}/shadowpay/v1/payment/authorize`, {
+      const response = await this.request(`${this.baseUrl}/shadowpay/v1/payment/authorize`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'X-API-Key': params.apiKey, // ✅ Merchant's API key for authentication
+          'Idempotency-Key': idempotencyKey('authorize', params.paymentCommitment),
         },
         body: JSON.stringify({
           user_wallet: params.userWallet, // ✅ User's connected wallet
@@ -150,37 +256,16 @@ export class ShadowPayAPI {
           payment_commitment: params.paymentCommitment, // ✅ Crypto commitment
           payment_nullifier: params.paymentNullifier, // ✅ Crypto nullifier
         }),
-      });
+      }, options);
       
       if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-        
-        // Better error messages
-        if (response.status === 401) {
-          throw new ShadowPayError(
-            'Invalid API key - please check your merchant API key',
-            401,
-            error
-          );
-        }
-        
-        throw new ShadowPayError(
-          `Authorization failed: ${error.error || response.statusText}`,
-          response.status,
-          error
-        );
+        this.logger.warn('Authorization rejected', { status: response.status });
+        throw await toApiError(response, { action: 'Authorization' });
       }
       
-      return response.json();
+      return await readJsonResponse(response, AUTHORIZE_RESPONSE, 'authorize response');
     } catch (error) {
-      if (error instanceof ShadowPayError) {
-        throw error;
-      }
-      throw new ShadowPayError(
-        `Network error during authorization: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        0,
-        error
-      );
+      throw toRequestError(error, 'during authorization');
     }
   }
   
@@ -189,34 +274,75 @@ export class ShadowPayAPI {
    * Checks if user is authorized to access content
    * 
    * @param accessToken - Access token from authorization
+   * @param options - Abort signal and timeout
    * @returns Verification response with authorization status
    */
-  async verifyAccess(accessToken: string): Promise<AccessVerificationResponse> {
+  async verifyAccess(accessToken: string, options: AbortOptions = {}): Promise<AccessVerificationResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/shadowpay/v1/payment/verify-access`, {
+      const response = await this.request(`${this.baseUrl}/shadowpay/v1/payment/verify-access`, {
         method: 'GET',
         headers: {
           'X-Access-Token': accessToken,
         },
-      });
+      }, options);
       
       if (!response.ok) {
-        throw new ShadowPayError(
-          'Access verification failed',
-          response.status
-        );
+        throw await toApiError(response, { action: 'Access verification' });
       }
       
-      return response.json();
+      return await readJsonResponse(response, ACCESS_VERIFICATION_RESPONSE, 'verify-access response');
     } catch (error) {
-      if (error instanceof ShadowPayError) {
-        throw error;
+      throw toRequestError(error, 'during verification');
+    }
+  }
+  
+  /**
+   * Get the configuration registered for a merchant API key
+   * Used to confirm the receiving wallet before paying
+   * 
+   * @param apiKey - Merchant's API key
+   * @param options - Abort signal and timeout
+   * @returns Merchant key info (receiving wallet, limits)
+   */
+  async getMerchantKeyInfo(apiKey: string, options: AbortOptions = {}): Promise<MerchantKeyInfoResponse> {
+    try {
+      const response = await this.request(`${this.baseUrl}${ENDPOINTS.keyInfo}`, {
+        method: 'GET',
+        headers: {
+          'X-API-Key': apiKey,
+        },
+      }, options);
+      
+      if (!response.ok) {
+        // A 404 may mean the route itself is missing, so it is not reported as an invalid key
+        throw await toApiError(response, { action: 'Getting merchant key info' });
       }
-      throw new ShadowPayError(
-        `Network error during verification: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        0,
-        error
-      );
+      
+      return await readJsonResponse(response, MERCHANT_KEY_INFO_RESPONSE, 'merchant key info');
+    } catch (error) {
+      throw toRequestError(error, 'getting merchant key info');
+    }
+  }
+  
+  /**
+   * Get the tokens the facilitator currently accepts
+   * 
+   * @param options - Abort signal and timeout
+   * @returns Supported tokens with mint and decimals
+   */
+  async getSupportedTokens(options: AbortOptions = {}): Promise<SupportedTokensResponse> {
+    try {
+      const response = await this.request(`${this.baseUrl}${ENDPOINTS.supported}`, {
+        method: 'GET',
+      }, options);
+      
+      if (!response.ok) {
+        throw await toApiError(response, { action: 'Getting supported tokens' });
+      }
+      
+      return await readJsonResponse(response, SUPPORTED_TOKENS_RESPONSE, 'supported tokens response');
+    } catch (error) {
+      throw toRequestError(error, 'getting supported tokens');
     }
   }
   
@@ -225,9 +351,12 @@ export class ShadowPayAPI {
    * Settles payment on-chain with zero-knowledge privacy
    * 
    * @param params - Settlement parameters with ZK proof
+   * @param options - Abort signal and timeout
    * @returns Settlement response with transaction signature
    */
-  async settle(params: SettleRequest): Promise<SettleResponse> {
+  async settle(params: SettleRequest, options: AbortOptions = {}): Promise<SettleResponse> {
+    this.logger.debug('Submitting settlement proof');
+    
     try {
       // Convert proof to base64 (backend expects base64, not JSON string)
       const proofBase64 = typeof window !== 'undefined' 
@@ -248,10 +377,11 @@ export class ShadowPayAPI {
         encryptedAmountBytes = [...c1Bytes, ...c2Bytes];
       }
       
-      const response = await fetch(`${this.baseUrl}/shadowpay/v1/payment/settle`, {
+      const response = await this.request(`${this.baseUrl}/shadowpay/v1/payment/settle`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey('settle', params.commitment),
         },
         body: JSON.stringify({
           commitment: params.commitment,
@@ -259,27 +389,48 @@ export class ShadowPayAPI {
           public_signals: params.publicSignals, // ✅ snake_case
           encrypted_amount: encryptedAmountBytes, // ✅ Array or null, not object
         }),
-      });
+      }, options);
       
       if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new ShadowPayError(
-          `Settlement failed: ${error.error || response.statusText}`,
-          response.status,
-          error
-        );
+        this.logger.warn('Settlement rejected', { status: response.status });
+        throw await toApiError(response, { action: 'Settlement' });
       }
       
-      return response.json();
+      return await readJsonResponse(response, SETTLE_RESPONSE, 'settle response');
     } catch (error) {
-      if (error instanceof ShadowPayError) {
-        throw error;
+      throw toRequestError(error, 'during settlement');
+    }
+  }
+  
+  /**
+   * Add a wallet to the ShadowID tree
+   * Safe to repeat: an already registered wallet gets its existing commitment
+   * 
+   * @param walletAddress - Payer's wallet address
+   * @param options - Abort signal and timeout
+   * @returns Sender commitment and whether it was newly added
+   */
+  async registerShadowID(walletAddress: string, options: AbortOptions = {}): Promise<ShadowIDRegisterResponse> {
+    this.logger.debug('Registering wallet with ShadowID');
+    
+    try {
+      const response = await this.request(`${this.baseUrl}/shadowpay/api/shadowid/auto-register`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          wallet_address: walletAddress,
+        }),
+      }, options);
+      
+      if (!response.ok) {
+        throw await toApiError(response, { action: 'ShadowID registration' });
       }
-      throw new ShadowPayError(
-        `Network error during settlement: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        0,
-        error
-      );
+      
+      return await readJsonResponse(response, SHADOWID_REGISTER_RESPONSE, 'ShadowID registration response');
+    } catch (error) {
+      throw toRequestError(error, 'during ShadowID registration');
     }
   }
   
@@ -288,9 +439,12 @@ export class ShadowPayAPI {
    * Required for generating ZK proof
    * 
    * @param senderCommitment - Sender's commitment (hex)
+   * @param options - Abort signal and timeout
    * @returns Merkle proof with root, siblings, and path indices
    */
-  async getMerkleProof(senderCommitment: string): Promise<MerkleProofResponse> {
+  async getMerkleProof(senderCommitment: string, options: AbortOptions = {}): Promise<MerkleProofResponse> {
+    this.logger.debug('Fetching ShadowID merkle proof');
+    
     try {
       // Keep commitment in HEX format (merkle tree stores hex)
       // Remove 0x prefix if present
@@ -299,71 +453,140 @@ export class ShadowPayAPI {
         commitmentHex = senderCommitment.substring(2);
       }
       
-      const response = await fetch(
+      const response = await this.request(
         `${this.baseUrl}/shadowpay/shadowid/v1/merkle/proof/${commitmentHex}`, // ✅ Pass as HEX (not decimal)
         {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
           },
-        }
+        },
+        options
       );
       
       if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-        
-        // Better error messages
-        if (response.status === 404) {
-          throw new ShadowPayError(
-            'Commitment not found in merkle tree - user may need to register with ShadowID first',
-            404,
-            error
-          );
-        }
-        
-        throw new ShadowPayError(
-          `Failed to get merkle proof: ${error.error || response.statusText}`,
-          response.status,
-          error
-        );
+        throw await toApiError(response, { action: 'Getting merkle proof', notFound: 'commitment' });
       }
       
-      const data = await response.json();
+      const data = await readJsonResponse(response, MERKLE_PROOF_RESPONSE, 'merkle proof');
       
       // 🔧 Convert hex strings to decimal strings for snarkjs
       // Backend returns hex, but circuit needs decimal
-      const root = BigInt('0x' + data.root).toString();
-      const siblings = data.siblings.map((hex: string) => BigInt('0x' + hex).toString());
-      
-      return {
-        root: root,
-        siblings: siblings,
-        pathIndices: data.pathIndices
-      };
+      try {
+        return {
+          root: BigInt('0x' + data.root).toString(),
+          siblings: data.siblings.map(hex => BigInt('0x' + hex).toString()),
+          pathIndices: data.pathIndices,
+        };
+      } catch (error) {
+        throw new MalformedResponseError('Malformed merkle proof: root and siblings must be hex', response.status, data);
+      }
     } catch (error) {
-      if (error instanceof ShadowPayError) {
-        throw error;
+      throw toRequestError(error, 'getting merkle proof');
+    }
+  }
+  
+  /**
+   * Helper: fetch with the retry policy
+   * Retries network errors and retryable statuses; honors Retry-After on 429/503, capped at maxDelayMs
+   * Non-idempotent requests must carry an Idempotency-Key header
+   * The timeout covers every attempt, including backoff delays
+   * 
+   * @returns Last response (callers check response.ok)
+   */
+  private async request(url: string, init: RequestInit, options: AbortOptions = {}): Promise<Response> {
+    const scope = createAbortScope(options);
+    
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const canRetry = attempt < this.retry.retries;
+        
+        let response: Response;
+        try {
+          response = await this.fetcher(url, { ...init, signal: scope.signal });
+        } catch (error) {
+          scope.throwIfAborted();
+          if (!canRetry) {
+            throw error;
+          }
+          const delay = this.backoff(attempt);
+          this.logger.debug('Request failed, retrying', { method: init.method, attempt: attempt + 1, delay });
+          await abortableSleep(delay, scope);
+          continue;
+        }
+        
+        if (!canRetry || !this.retry.retryOn.includes(response.status)) {
+          return response;
+        }
+        
+        const retryAfter = response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers.get('Retry-After'))
+          : null;
+        const delay = retryAfter === null ? this.backoff(attempt) : Math.min(retryAfter, this.retry.maxDelayMs);
+        // Release the discarded response's connection before waiting
+        await response.body?.cancel().catch(() => undefined);
+        this.logger.debug('Retryable response, retrying', { method: init.method, status: response.status, attempt: attempt + 1, delay });
+        await abortableSleep(delay, scope);
       }
-      throw new ShadowPayError(
-        `Network error getting merkle proof: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        0,
-        error
-      );
+    } finally {
+      scope.dispose();
     }
   }
+  
+  /**
+   * Helper: Exponential backoff with full jitter
+   */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.minDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+/**
+ * Helper: Idempotency key for a payment operation (one per commitment)
+ */
+function idempotencyKey(operation: string, commitment: string): string {
+  const clean = commitment.startsWith('0x') ? commitment.slice(2) : commitment;
+  return `shadowpay-${operation}-${clean}`;
 }
 
 /**
- * Custom error class for ShadowPay API errors
+ * Helper: Parse a Retry-After header (seconds or HTTP date) into milliseconds
  */
-export class ShadowPayError extends Error {
-  constructor(
-    message: string,
-    public statusCode: number,
-    public details?: any
-  ) {
-    super(message);
-    this.name = 'ShadowPayError';
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
   }
+  
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
 }
 
+/**
+ * Helper: Typed error for a failed response (body read if it is JSON)
+ */
+async function toApiError(response: Response, context: ApiErrorContext): Promise<ShadowPayError> {
+  const body = await response.json().catch(() => undefined);
+  const retryAfterMs = response.status === 429
+    ? parseRetryAfter(response.headers.get('Retry-After')) ?? undefined
+    : undefined;
+  return createApiError(response.status, body, { ...context, retryAfterMs });
+}
+
+/**
+ * Helper: Pass SDK errors through; anything else means no response was received
+ */
+function toRequestError(error: unknown, during: string): Error {
+  if (error instanceof ShadowPayError || error instanceof RequestAbortedError) {
+    return error;
+  }
+  return new NetworkError(
+    `Network error ${during}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    error
+  );
+}
@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { CIRCUIT_VERSIONS, silentLogger, type Logger } from '@shadowpay/core';
+import { CircuitArtifactManager, MemoryArtifactCache, ArtifactIntegrityError } from './circuit-artifacts';
+
+const WASM = new TextEncoder().encode('wasm bytes');
+const WASM_DIGEST = createHash('sha256').update(WASM).digest('hex');
+
+/**
+ * Fake fetch serving the same bytes for every URL, counting downloads
+ */
+function servingFetch(bytes: Uint8Array) {
+  return vi.fn(async () => new Response(bytes.slice().buffer)) as unknown as typeof fetch;
+}
+
+function recordingLogger(): Logger & { warn: ReturnType<typeof vi.fn> } {
+  return { ...silentLogger, warn: vi.fn() };
+}
+
+describe('CircuitArtifactManager', () => {
+  it('verifies a pinned artifact and caches it under its digest', async () => {
+    const cache = new MemoryArtifactCache();
+    const fetcher = servingFetch(WASM);
+    const manager = new CircuitArtifactManager({ cache, fetch: fetcher, integrity: { wasm: WASM_DIGEST } });
+
+    expect(await manager.load('wasm')).toEqual(WASM);
+    expect(fetcher).toHaveBeenCalledWith(CIRCUIT_VERSIONS.elgamal.wasm);
+
+    // A second manager sharing the cache does not download again
+    const again = new CircuitArtifactManager({ cache, fetch: fetcher, integrity: { wasm: WASM_DIGEST } });
+    expect(await again.load('wasm')).toEqual(WASM);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a download that does not match its digest', async () => {
+    const cache = new MemoryArtifactCache();
+    const manager = new CircuitArtifactManager({
+      cache,
+      fetch: servingFetch(new TextEncoder().encode('tampered')),
+      integrity: { wasm: WASM_DIGEST },
+    });
+
+    await expect(manager.load('wasm')).rejects.toThrow(ArtifactIntegrityError);
+    await expect(manager.load('wasm')).rejects.toThrow(/failed integrity check/);
+  });
+
+  it('downloads again when the cached copy is corrupted', async () => {
+    const cache = new MemoryArtifactCache();
+    const put = vi.spyOn(cache, 'put');
+    const fetcher = servingFetch(WASM);
+    await new CircuitArtifactManager({ cache, fetch: fetcher, integrity: { wasm: WASM_DIGEST } }).load('wasm');
+
+    const [key] = put.mock.calls[0];
+    await cache.put(key, new TextEncoder().encode('corrupted'));
+
+    const manager = new CircuitArtifactManager({ cache, fetch: fetcher, integrity: { wasm: WASM_DIGEST } });
+    expect(await manager.load('wasm')).toEqual(WASM);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(await cache.get(key)).toEqual(WASM);
+  });
+
+  it('uses an unpinned hosted artifact with a warning and keeps it in memory only', async () => {
+    const cache = new MemoryArtifactCache();
+    const put = vi.spyOn(cache, 'put');
+    const fetcher = servingFetch(WASM);
+    const logger = recordingLogger();
+    const manager = new CircuitArtifactManager({ cache, fetch: fetcher, logger });
+
+    expect(await manager.load('wasm')).toEqual(WASM);
+    expect(await manager.load('wasm')).toEqual(WASM);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(put).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('has no pinned SHA-256 digest'));
+  });
+
+  it('rejects unpinned artifacts when integrity is required', async () => {
+    const manager = new CircuitArtifactManager({
+      cache: new MemoryArtifactCache(),
+      fetch: servingFetch(WASM),
+      requireIntegrity: true,
+    });
+
+    await expect(manager.load('wasm')).rejects.toThrow('No pinned SHA-256 digest for circuit wasm (elgamal)');
+  });
+
+  it('checks in-memory sources against a passed digest without warning', async () => {
+    const logger = recordingLogger();
+    const manager = new CircuitArtifactManager({
+      cache: new MemoryArtifactCache(),
+      sources: { wasm: WASM, zkey: new Uint8Array([1]) },
+      integrity: { wasm: WASM_DIGEST, zkey: WASM_DIGEST },
+      logger,
+    });
+
+    expect(await manager.load('wasm')).toBe(WASM);
+    await expect(manager.load('zkey')).rejects.toThrow(ArtifactIntegrityError);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('reports failed downloads', async () => {
+    const manager = new CircuitArtifactManager({
+      cache: new MemoryArtifactCache(),
+      fetch: (async () => new Response('missing', { status: 404, statusText: 'Not Found' })) as typeof fetch,
+      logger: silentLogger,
+    });
+
+    await expect(manager.load('vkey')).rejects.toThrow('Failed to download circuit vkey: 404 Not Found');
+  });
+});
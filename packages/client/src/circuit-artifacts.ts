@@ -0,0 +1,438 @@
+/**
+ * Circuit artifact management
+ * Caches the circuit wasm, zkey and verification key and checks them against pinned SHA-256 digests
+ */
+
+import { CIRCUIT_VERSIONS, CIRCUIT_INTEGRITY, getLogger } from '@shadowpay/core';
+import type { CircuitVersion, CircuitArtifactName, Logger } from '@shadowpay/core';
+import { sha256Hex } from './web-crypto';
+
+/**
+ * Byte storage for downloaded circuit artifacts
+ */
+export interface ArtifactCache {
+  get(key: string): Promise<Uint8Array | null>;
+  put(key: string, data: Uint8Array): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory artifact cache (lives as long as the page or process)
+ */
+export class MemoryArtifactCache implements ArtifactCache {
+  private entries = new Map<string, Uint8Array>();
+
+  async get(key: string): Promise<Uint8Array | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    this.entries.set(key, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Cache API artifact cache (browsers and service workers)
+ */
+export class CacheStorageArtifactCache implements ArtifactCache {
+  private cacheName: string;
+
+  constructor(cacheName: string = 'shadowpay-circuits') {
+    this.cacheName = cacheName;
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const cache = await caches.open(this.cacheName);
+    const response = await cache.match(toCacheRequest(key));
+    return response ? new Uint8Array(await response.arrayBuffer()) : null;
+  }
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    const cache = await caches.open(this.cacheName);
+    await cache.put(toCacheRequest(key), new Response(data as BodyInit));
+  }
+
+  async delete(key: string): Promise<void> {
+    const cache = await caches.open(this.cacheName);
+    await cache.delete(toCacheRequest(key));
+  }
+}
+
+/**
+ * IndexedDB artifact cache (browsers without the Cache API, Electron)
+ */
+export class IndexedDBArtifactCache implements ArtifactCache {
+  private dbName: string;
+  private storeName: string;
+
+  constructor(options: { dbName?: string; storeName?: string } = {}) {
+    this.dbName = options.dbName || 'shadowpay-circuits';
+    this.storeName = options.storeName || 'artifacts';
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const result = await this.run<Uint8Array | undefined>('readonly', store => store.get(key));
+    return result ?? null;
+  }
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    await this.run('readwrite', store => store.put(data, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+}
+
+/**
+ * File system artifact cache (Node.js)
+ * Defaults to a shadowpay-circuits directory in the OS temp dir
+ */
+export class FileArtifactCache implements ArtifactCache {
+  private directory?: string;
+
+  constructor(directory?: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    const fs = await import('fs/promises');
+
+    try {
+      return new Uint8Array(await fs.readFile(await this.pathFor(key)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    const filePath = await this.pathFor(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.rm(await this.pathFor(key), { force: true });
+  }
+
+  private async pathFor(key: string): Promise<string> {
+    const path = await import('path');
+    const directory = this.directory || path.join((await import('os')).tmpdir(), 'shadowpay-circuits');
+    return path.join(directory, key.replace(/[^a-zA-Z0-9._-]/g, '_'));
+  }
+}
+
+/**
+ * Pick an artifact cache for the current environment
+ * Cache API, then IndexedDB in browsers; disk in Node; memory otherwise
+ *
+ * @returns Default artifact cache
+ */
+export function createDefaultArtifactCache(): ArtifactCache {
+  if (typeof caches !== 'undefined') {
+    return new CacheStorageArtifactCache();
+  }
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBArtifactCache();
+  }
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    return new FileArtifactCache();
+  }
+  return new MemoryArtifactCache();
+}
+
+/**
+ * Where a circuit artifact comes from
+ * - 'https://...' URL: downloaded and cached
+ * - 'file://...' URL: read from disk (Node.js), not cached
+ * - Uint8Array: used as is
+ */
+export type ArtifactSource = string | URL | Uint8Array;
+
+export type CircuitArtifactSources = Partial<Record<CircuitArtifactName, ArtifactSource>>;
+
+export interface CircuitArtifactManagerOptions {
+  version?: CircuitVersion; // Circuit version (default: 'elgamal')
+  sources?: CircuitArtifactSources; // Replaces the hosted artifacts (default: CIRCUIT_VERSIONS[version])
+  cache?: ArtifactCache; // Where artifacts are cached (default: createDefaultArtifactCache())
+  integrity?: Partial<Record<CircuitArtifactName, string>>; // SHA-256 digests; pinned ones only apply to hosted artifacts
+  requireIntegrity?: boolean; // Reject artifacts without a digest (default: false)
+  fetch?: typeof fetch; // Custom fetch for downloads (default: global fetch)
+  logger?: Logger; // Where the unpinned-artifact warning goes (default: SDK-wide logger)
+}
+
+/**
+ * Downloads, caches and verifies circuit artifacts
+ * Artifacts with a digest (pinned in CIRCUIT_INTEGRITY or passed as integrity) must match it, and are cached under
+ * a key that includes it, so a new circuit release never reuses a stale cache entry. Artifacts without one are
+ * accepted with a warning (unless requireIntegrity is set) and only kept in memory for this manager's lifetime
+ *
+ * @example
+ * ```typescript
+ * const artifacts = new CircuitArtifactManager();
+ * await artifacts.prefetch(); // Warm the cache on startup
+ * const zkey = await artifacts.load('zkey');
+ * ```
+ */
+export class CircuitArtifactManager {
+  private version: CircuitVersion;
+  private sources: CircuitArtifactSources;
+  private cache: ArtifactCache;
+  private integrity: Partial<Record<CircuitArtifactName, string>>;
+  private requireIntegrity: boolean;
+  private fetcher: typeof fetch;
+  private logger: Logger;
+  private inFlight = new Map<CircuitArtifactName, Promise<Uint8Array>>();
+  private unpinned = new Map<CircuitArtifactName, Uint8Array>(); // Artifacts without a digest, never persisted
+  private verificationKey?: Promise<any>;
+
+  constructor(options: CircuitArtifactManagerOptions = {}) {
+    this.version = options.version || 'elgamal';
+    this.sources = options.sources || {};
+    this.cache = options.cache || createDefaultArtifactCache();
+
+    // Pinned digests describe the hosted release, not self-hosted or local artifacts
+    const pinned = { ...CIRCUIT_INTEGRITY[this.version] };
+    for (const name of Object.keys(this.sources) as CircuitArtifactName[]) {
+      delete pinned[name];
+    }
+    this.integrity = { ...pinned, ...options.integrity };
+    this.requireIntegrity = options.requireIntegrity ?? false;
+    this.fetcher = options.fetch || ((input, init) => fetch(input, init));
+    this.logger = options.logger || getLogger();
+  }
+
+  /**
+   * Load an artifact from the cache, downloading it if missing or corrupted
+   *
+   * @param name - Artifact to load
+   * @returns Verified artifact bytes
+   */
+  load(name: CircuitArtifactName): Promise<Uint8Array> {
+    let pending = this.inFlight.get(name);
+    if (!pending) {
+      pending = this.loadUncached(name).finally(() => this.inFlight.delete(name));
+      this.inFlight.set(name, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Load and parse the verification key (memoized)
+   *
+   * @returns Groth16 verification key
+   */
+  loadVerificationKey(): Promise<any> {
+    if (!this.verificationKey) {
+      this.verificationKey = this.load('vkey')
+        .then(bytes => JSON.parse(new TextDecoder().decode(bytes)))
+        .catch(error => {
+          this.verificationKey = undefined;
+          throw error;
+        });
+    }
+    return this.verificationKey;
+  }
+
+  /**
+   * Download and cache every artifact ahead of the first proof
+   */
+  async prefetch(): Promise<void> {
+    await Promise.all([this.load('wasm'), this.load('zkey'), this.load('vkey')]);
+  }
+
+  /**
+   * Remove this version's artifacts from the cache
+   */
+  async clear(): Promise<void> {
+    this.verificationKey = undefined;
+    this.unpinned.clear();
+    await Promise.all(
+      (['wasm', 'zkey', 'vkey'] as const).map(name => {
+        const source = this.sources[name] ?? CIRCUIT_VERSIONS[this.version][name];
+        const key = source instanceof Uint8Array ? null : this.cacheKey(name, source.toString());
+        return key ? this.cache.delete(key) : Promise.resolve();
+      })
+    );
+  }
+
+  private async loadUncached(name: CircuitArtifactName): Promise<Uint8Array> {
+    const source = this.sources[name] ?? CIRCUIT_VERSIONS[this.version][name];
+
+    if (source instanceof Uint8Array) {
+      await this.verify(name, source);
+      return source;
+    }
+
+    const url = source.toString();
+    if (url.startsWith('file:')) {
+      const data = await readFileUrl(url);
+      await this.verify(name, data);
+      return data;
+    }
+
+    const key = this.cacheKey(name, url);
+    const remembered = this.unpinned.get(name);
+    if (!key && remembered) {
+      return remembered;
+    }
+
+    const cached = key ? await this.cache.get(key).catch(() => null) : null;
+    if (key && cached) {
+      if (await this.matchesDigest(name, cached)) {
+        return cached;
+      }
+      // Corrupted or tampered cache entry: drop it and download again
+      await this.cache.delete(key).catch(() => undefined);
+    }
+
+    const response = await this.fetcher(url);
+    if (!response.ok) {
+      throw new ArtifactIntegrityError(`Failed to download circuit ${name}: ${response.status} ${response.statusText}`);
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    await this.verify(name, data);
+
+    if (key) {
+      await this.cache.put(key, data).catch(() => undefined);
+    } else {
+      this.unpinned.set(name, data);
+    }
+    return data;
+  }
+
+  private async verify(name: CircuitArtifactName, data: Uint8Array): Promise<void> {
+    const expected = this.integrity[name];
+    if (!expected) {
+      if (this.requireIntegrity) {
+        throw new ArtifactIntegrityError(`No pinned SHA-256 digest for circuit ${name} (${this.version})`);
+      }
+      if (!this.sources[name]) {
+        this.logger.warn(`Circuit ${name} (${this.version}) has no pinned SHA-256 digest; it is used unverified`);
+      }
+      return;
+    }
+
+    const actual = await sha256Hex(data);
+    if (actual !== expected.toLowerCase()) {
+      throw new ArtifactIntegrityError(
+        `Circuit ${name} (${this.version}) failed integrity check: expected sha256 ${expected}, got ${actual}`
+      );
+    }
+  }
+
+  private async matchesDigest(name: CircuitArtifactName, data: Uint8Array): Promise<boolean> {
+    try {
+      await this.verify(name, data);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Cache entries are keyed by digest; artifacts without one are not persisted, since a changed file could not be detected
+   */
+  private cacheKey(name: CircuitArtifactName, url: string): string | null {
+    const digest = this.integrity[name];
+    if (!digest) {
+      return null;
+    }
+    const origin = this.sources[name] ? `-${hashString(url)}` : '';
+    return `${this.version}-${name}${origin}-${digest.toLowerCase().slice(0, 16)}`;
+  }
+}
+
+let defaultManager: CircuitArtifactManager | null = null;
+
+/**
+ * Shared artifact manager used when none is passed explicitly
+ *
+ * @returns Default artifact manager
+ */
+export function getDefaultArtifactManager(): CircuitArtifactManager {
+  if (!defaultManager) {
+    defaultManager = new CircuitArtifactManager();
+  }
+  return defaultManager;
+}
+
+/**
+ * Helper: Read a file:// artifact (Node.js only)
+ */
+async function readFileUrl(url: string): Promise<Uint8Array> {
+  const fs = await import('fs/promises');
+  const { fileURLToPath } = await import('url');
+
+  try {
+    return new Uint8Array(await fs.readFile(fileURLToPath(url)));
+  } catch (error) {
+    throw new ArtifactIntegrityError(
+      `Failed to read circuit artifact ${url}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Helper: Short FNV-1a hash so custom URLs get their own cache entries
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function toCacheRequest(key: string): string {
+  return `https://shadowpay.invalid/circuits/${encodeURIComponent(key)}`;
+}
+
+/**
+ * Thrown when a circuit artifact can't be loaded or fails its integrity check
+ */
+export class ArtifactIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArtifactIntegrityError';
+  }
+}
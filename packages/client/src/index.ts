@@ -13,20 +13,87 @@ export type {
   PaymentResult,
   Settlement,
   StoredKeys,
+  RetiredKeys,
   PaymentHistory,
+  PaymentStatus,
+  ResumeSummary,
 } from './types';
 
+// Pending settlements
+export {
+  MemorySettlementStore,
+  LocalStorageSettlementStore,
+  FileSettlementStore,
+  createDefaultSettlementStore,
+  isBeforeProofDeadline,
+} from './settlement-store';
+
+export type { SettlementStore, PendingSettlement } from './settlement-store';
+
+// ShadowID
+export {
+  ShadowID,
+  MemoryShadowIDCache,
+  LocalStorageShadowIDCache,
+  FileShadowIDCache,
+  createDefaultShadowIDCache,
+} from './shadowid';
+
+export type { ShadowIDRegistration, ShadowIDStatus, ShadowIDCache, ShadowIDOptions } from './shadowid';
+
+// Payment lifecycle events
+export { PaymentEventEmitter } from './payment-events';
+
+export type {
+  PaymentEvent,
+  PaymentEventMap,
+  PaymentEventType,
+  PaymentEventListener,
+  PaymentStage,
+} from './payment-events';
+
 // Proof generation
 export {
   generateProof,
   verifyProof,
+  verifyPaymentProof,
   ProofGenerationError,
 } from './proof-generator';
 
-export type { ProofInputs, GeneratedProof } from './proof-generator';
+export type {
+  ProofInputs,
+  GeneratedProof,
+  GenerateProofOptions,
+  VerifyPaymentProofOptions,
+  PaymentProofVerification,
+  PaymentProofFailure,
+} from './proof-generator';
+
+export { runProver, ProofCancelledError } from './prover';
+
+export type { ProverMode, ProverOptions, ProverRequest, ProverResponse } from './prover';
+
+// Circuit artifacts
+export {
+  CircuitArtifactManager,
+  getDefaultArtifactManager,
+  createDefaultArtifactCache,
+  MemoryArtifactCache,
+  CacheStorageArtifactCache,
+  IndexedDBArtifactCache,
+  FileArtifactCache,
+  ArtifactIntegrityError,
+} from './circuit-artifacts';
+
+export type {
+  ArtifactCache,
+  ArtifactSource,
+  CircuitArtifactSources,
+  CircuitArtifactManagerOptions,
+} from './circuit-artifacts';
 
 // API client
-export { ShadowPayAPI, ShadowPayError } from './api-client';
+export { ShadowPayAPI } from './api-client';
 
 export type {
   AuthorizeRequest,
@@ -35,19 +102,121 @@ export type {
   SettleResponse,
   AccessVerificationResponse,
   MerkleProofResponse,
+  ShadowIDRegisterResponse,
+  ShadowPayAPIOptions,
+  RetryPolicy,
+  MerchantKeyInfoResponse,
+  SupportedTokensResponse,
 } from './api-client';
 
+// Payment history
+export {
+  MemoryHistoryStore,
+  LocalStorageHistoryStore,
+  FileHistoryStore,
+  createDefaultHistoryStore,
+  queryPaymentHistory,
+  exportPaymentHistory,
+} from './payment-history';
+
+export type { PaymentHistoryStore, PaymentHistoryQuery, PaymentHistoryPage } from './payment-history';
+
+// Quotes and preflight checks
+export { buildQuote, assertMerchantWallet, PreflightError } from './quote';
+
+export type { PaymentQuote, PreflightErrorCode } from './quote';
+
+// Settlement status
+export { SettlementRejectedError } from './settlement-status';
+
+export type { PaymentReference, PaymentStatusResult, WaitForSettlementOptions } from './settlement-status';
+
+// x402
+export {
+  parseX402Response,
+  selectPaymentRequirement,
+  encodePaymentHeader,
+  X402PaymentError,
+} from './x402';
+
+export type { X402FetchOptions, SelectedRequirement } from './x402';
+
+// Cancellation
+export { RequestAbortedError } from './abort';
+
+export type { AbortOptions } from './abort';
+
+// Key storage
+export {
+  MemoryKeyStore,
+  LocalStorageKeyStore,
+  IndexedDBKeyStore,
+  FileKeyStore,
+  createDefaultKeyStore,
+  KeyStoreError,
+} from './key-store';
+
+export type { KeyStore } from './key-store';
+
+// Key backups
+export {
+  encryptKeyBackup,
+  decryptKeyBackup,
+  KeyBackupError,
+  KEY_BACKUP_VERSION,
+} from './key-backup';
+
+export type { KeyBackup } from './key-backup';
+
 // Wallet utilities
 export {
   detectWallet,
+  connectWallet,
   getPublicKey,
   signTransaction,
+  signMessage,
+  onAccountChange,
   isWalletConnected,
   getWalletName,
   WalletError,
 } from './wallet-adapter';
 
-export type { WalletInterface } from './wallet-adapter';
+export type { WalletInterface, SignableTransaction } from './wallet-adapter';
+
+// Wallet Standard
+export {
+  getStandardWallets,
+  getSolanaStandardWallets,
+  onStandardWalletRegistered,
+  isSolanaStandardWallet,
+  StandardWalletAdapter,
+} from './wallet-standard';
+
+export type { StandardWallet, StandardWalletAccount } from './wallet-standard';
+
+export { KeypairWallet } from './keypair-wallet';
+
+// Headless payer (Node.js)
+export { NodePayer } from './node-payer';
+
+export type { NodePayerOptions, NodePaymentOptions } from './node-payer';
+
+// API errors (re-exported from core, shared with @shadowpay/server)
+export {
+  ShadowPayError,
+  InvalidApiKeyError,
+  RateLimitedError,
+  CommitmentNotRegisteredError,
+  ProofDeadlineExpiredError,
+  NullifierAlreadyUsedError,
+  NetworkError,
+  MalformedResponseError,
+  InvalidMerkleProofError,
+  isShadowPayError,
+} from '@shadowpay/core';
+
+// Logging (re-exported from core)
+export { createConsoleLogger, silentLogger, setLogger } from '@shadowpay/core';
 
 // Re-export core types for convenience
 export type {
@@ -56,5 +225,14 @@ export type {
   ElGamalKeypair,
   EncryptedAmount,
   PaymentProof,
+  Logger,
+  LogLevel,
+  ShadowPayErrorCode,
+  Groth16Proof,
+  Groth16VerificationKey,
+  PaymentPublicSignals,
 } from '@shadowpay/core';
 
+// Public signal decoding (re-exported from core)
+export { decodePublicSignals } from '@shadowpay/core';
+
@@ -0,0 +1,131 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readJsonFile, updateJsonFile, writeJsonFile, removeJsonFile } from './json-file';
+import { FileSettlementStore, type PendingSettlement } from './settlement-store';
+import { FileHistoryStore } from './payment-history';
+import { FileShadowIDCache } from './shadowid';
+import type { PaymentHistory } from './types';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'shadowpay-json-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('json-file', () => {
+  it('returns the fallback for a missing file', async () => {
+    expect(await readJsonFile(join(dir, 'missing.json'), [])).toEqual([]);
+  });
+
+  it('applies concurrent updates one after another', async () => {
+    const file = join(dir, 'counter.json');
+    await Promise.all(Array.from({ length: 25 }, () => updateJsonFile<number>(file, 0, n => n + 1)));
+    expect(await readJsonFile(file, 0)).toBe(25);
+  });
+
+  it('leaves no temp files behind and writes with the requested mode', async () => {
+    const file = join(dir, 'nested', 'secret.json');
+    await writeJsonFile(file, { a: 1 }, { mode: 0o600 });
+    expect(await readdir(join(dir, 'nested'))).toEqual(['secret.json']);
+    expect((await stat(file)).mode & 0o777).toBe(0o600);
+  });
+
+  it('keeps the previous contents when an update throws', async () => {
+    const file = join(dir, 'data.json');
+    await writeJsonFile(file, { version: 1 });
+    await expect(updateJsonFile(file, {}, () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    expect(await readJsonFile(file, {})).toEqual({ version: 1 });
+
+    // A failed update does not block the queue
+    await updateJsonFile<{ version: number }>(file, { version: 0 }, current => ({ version: current.version + 1 }));
+    expect(await readJsonFile(file, {})).toEqual({ version: 2 });
+  });
+
+  it('removes the file after pending writes', async () => {
+    const file = join(dir, 'data.json');
+    const write = writeJsonFile(file, { a: 1 });
+    await removeJsonFile(file);
+    await write;
+    await expect(readFile(file)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+});
+
+describe('file stores', () => {
+  it('FileSettlementStore keeps every concurrent save', async () => {
+    const store = new FileSettlementStore(join(dir, 'settlements.json'));
+    await Promise.all(Array.from({ length: 10 }, (_, i) => store.save(settlement(`p${i}`))));
+    await store.remove('p3');
+    const ids = (await store.list()).map(s => s.paymentId).sort();
+    expect(ids).toEqual(['p0', 'p1', 'p2', 'p4', 'p5', 'p6', 'p7', 'p8', 'p9']);
+    expect((await stat(join(dir, 'settlements.json'))).mode & 0o777).toBe(0o600);
+  });
+
+  it('FileHistoryStore keeps every concurrent record and replaces updates in place', async () => {
+    const store = new FileHistoryStore(join(dir, 'history.json'));
+    await Promise.all(Array.from({ length: 10 }, (_, i) => store.put(record(`p${i}`))));
+    await store.put({ ...record('p0'), status: 'settled' });
+    const records = await store.list();
+    expect(records).toHaveLength(10);
+    expect(records[0]).toMatchObject({ paymentId: 'p0', status: 'settled' });
+  });
+
+  it('FileShadowIDCache keeps every concurrent registration', async () => {
+    const cache = new FileShadowIDCache(join(dir, 'shadowid.json'));
+    await Promise.all(['a', 'b', 'c'].map(walletAddress => cache.save({ walletAddress, commitment: '0x1', registeredAt: 1 })));
+    await cache.remove('b');
+    expect(await cache.get('a')).not.toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).not.toBeNull();
+  });
+
+  it('reports a corrupted file instead of overwriting it', async () => {
+    const file = join(dir, 'settlements.json');
+    await writeFile(file, '{ not json');
+    await expect(new FileSettlementStore(file).save(settlement('p0'))).rejects.toThrow(SyntaxError);
+    expect(await readFile(file, 'utf-8')).toBe('{ not json');
+  });
+});
+
+function settlement(paymentId: string): PendingSettlement {
+  return {
+    paymentId,
+    auth: { commitment: '1', nullifier: '2', access_token: 'token', expires_at: 0, proof_deadline: 0 },
+    senderSecret: '3',
+    senderCommitment: '4',
+    receiverCommitment: '5',
+    paymentCommitment: '6',
+    paymentNullifier: '7',
+    salt: '8',
+    lamports: 1000,
+    amount: 0.000001,
+    token: 'SOL',
+    merchantKey: 'key',
+    merchantWallet: 'wallet',
+    createdAt: 0,
+  };
+}
+
+function record(paymentId: string): PaymentHistory {
+  return {
+    paymentId,
+    timestamp: 0,
+    updatedAt: 0,
+    status: 'authorized',
+    amount: 0.001,
+    token: 'SOL',
+    lamports: 1000000,
+    recipient: 'wallet',
+    merchantKey: 'key',
+    commitment: '1',
+    nullifier: '2',
+  };
+}
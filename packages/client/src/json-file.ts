@@ -0,0 +1,109 @@
+/**
+ * JSON files behind the file system stores (Node.js / Electron main process)
+ * Updates to a file are queued and land atomically (temp file + rename), so concurrent saves are never lost
+ */
+
+const queues = new Map<string, Promise<unknown>>(); // Tail of the update queue for each file path
+
+export interface JsonFileOptions {
+  mode?: number; // File permissions (e.g. 0o600 for secrets)
+}
+
+/**
+ * Read a JSON file
+ *
+ * @param filePath - File to read
+ * @param fallback - Value when the file does not exist
+ * @returns Parsed contents
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  const fs = await import('fs/promises');
+
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read, change and write back a JSON file
+ * Runs after every earlier update of the same path in this process, and replaces the file in one rename
+ *
+ * @param filePath - File to update
+ * @param fallback - Starting value when the file does not exist
+ * @param update - Returns the new contents
+ * @param options - File permissions
+ */
+export function updateJsonFile<T>(
+  filePath: string,
+  fallback: T,
+  update: (current: T) => T,
+  options: JsonFileOptions = {}
+): Promise<void> {
+  return enqueue(filePath, async () => {
+    const next = update(await readJsonFile(filePath, fallback));
+    await writeAtomically(filePath, JSON.stringify(next, null, 2), options.mode);
+  });
+}
+
+/**
+ * Replace a JSON file's contents
+ * Runs after every earlier update of the same path in this process, and replaces the file in one rename
+ *
+ * @param filePath - File to write
+ * @param value - New contents
+ * @param options - File permissions
+ */
+export function writeJsonFile<T>(filePath: string, value: T, options: JsonFileOptions = {}): Promise<void> {
+  return enqueue(filePath, () => writeAtomically(filePath, JSON.stringify(value, null, 2), options.mode));
+}
+
+/**
+ * Delete a file once pending updates have been written
+ *
+ * @param filePath - File to delete (missing files are ignored)
+ */
+export function removeJsonFile(filePath: string): Promise<void> {
+  return enqueue(filePath, async () => {
+    const fs = await import('fs/promises');
+    await fs.rm(filePath, { force: true });
+  });
+}
+
+/**
+ * Helper: Run a task after the previous task on the same path settles
+ */
+function enqueue(filePath: string, task: () => Promise<void>): Promise<void> {
+  const run = (queues.get(filePath) ?? Promise.resolve()).then(task);
+  const tail = run.catch(() => undefined);
+  queues.set(filePath, tail);
+  tail.then(() => {
+    if (queues.get(filePath) === tail) {
+      queues.delete(filePath);
+    }
+  });
+  return run;
+}
+
+/**
+ * Helper: Write to a temp file next to the target, then rename it over the target
+ * Readers and crashes never see a half-written file
+ */
+async function writeAtomically(filePath: string, contents: string, mode?: number): Promise<void> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}.tmp`;
+  try {
+    await fs.writeFile(tempPath, contents, mode === undefined ? undefined : { mode });
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { webcrypto } from 'crypto';
+import { encryptKeyBackup, decryptKeyBackup, KeyBackupError, KEY_BACKUP_VERSION, type KeyBackup } from './key-backup';
+import type { StoredKeys } from './types';
+
+const KEYS: StoredKeys = {
+  privateKey: '12345',
+  publicKey: { x: '1', y: '2' },
+  createdAt: 1700000000000,
+  retiredKeys: [{ privateKey: '678', publicKey: { x: '3', y: '4' }, createdAt: 1, retiredAt: 2 }],
+};
+
+describe('key backup', () => {
+  it('round-trips active and retired keys', async () => {
+    const blob = await encryptKeyBackup(KEYS, 'correct horse');
+    expect(JSON.parse(blob)).toMatchObject({ version: KEY_BACKUP_VERSION, kdf: { name: 'PBKDF2', iterations: 310_000 } });
+    await expect(decryptKeyBackup(blob, 'correct horse')).resolves.toEqual(KEYS);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const blob = await encryptKeyBackup(KEYS, 'correct horse');
+    await expect(decryptKeyBackup(blob, 'battery staple')).rejects.toThrow('wrong passphrase or corrupted data');
+  });
+
+  it('requires a passphrase', async () => {
+    await expect(encryptKeyBackup(KEYS, '')).rejects.toBeInstanceOf(KeyBackupError);
+  });
+
+  it('rejects KDF parameters outside the accepted range', async () => {
+    const backup: KeyBackup = JSON.parse(await encryptKeyBackup(KEYS, 'pass'));
+
+    for (const iterations of [1, 99_999, 10_000_001, 1.5]) {
+      const blob = JSON.stringify({ ...backup, kdf: { ...backup.kdf, iterations } });
+      await expect(decryptKeyBackup(blob, 'pass')).rejects.toThrow('PBKDF2 iterations must be between');
+    }
+    const otherHash = JSON.stringify({ ...backup, kdf: { ...backup.kdf, hash: 'SHA-1' } });
+    await expect(decryptKeyBackup(otherHash, 'pass')).rejects.toThrow('unsupported or missing parameters');
+  });
+
+  it('rejects malformed backups with KeyBackupError', async () => {
+    const backup: KeyBackup = JSON.parse(await encryptKeyBackup(KEYS, 'pass'));
+
+    await expect(decryptKeyBackup('not json', 'pass')).rejects.toThrow('not valid JSON');
+    await expect(decryptKeyBackup(JSON.stringify({ ...backup, version: 2 }), 'pass'))
+      .rejects.toThrow('Unsupported key backup version: 2');
+    await expect(decryptKeyBackup(JSON.stringify({ ...backup, ciphertext: '%%%' }), 'pass'))
+      .rejects.toThrow('ciphertext is not base64');
+    await expect(decryptKeyBackup(JSON.stringify({ ...backup, cipher: { ...backup.cipher, iv: 'AAAA' } }), 'pass'))
+      .rejects.toThrow('salt or IV has the wrong length');
+  });
+
+  it('rejects a decrypted payload that is not a key set', async () => {
+    await expect(decryptKeyBackup(await encryptRaw('not json', 'pass'), 'pass'))
+      .rejects.toThrow('decrypted payload is not valid JSON');
+    await expect(decryptKeyBackup(await encryptRaw('null', 'pass'), 'pass'))
+      .rejects.toThrow('missing key material');
+    await expect(decryptKeyBackup(await encryptRaw('{"privateKey":"1"}', 'pass'), 'pass'))
+      .rejects.toThrow('missing key material');
+  });
+});
+
+/**
+ * Encrypt arbitrary plaintext in the backup format, bypassing encryptKeyBackup's JSON encoding
+ */
+async function encryptRaw(plaintext: string, passphrase: string): Promise<string> {
+  const { subtle } = webcrypto;
+  const salt = webcrypto.getRandomValues(new Uint8Array(16));
+  const iv = webcrypto.getRandomValues(new Uint8Array(12));
+  const iterations = 100_000;
+  const baseKey = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  );
+  const ciphertext = new Uint8Array(await subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext)));
+
+  const backup: KeyBackup = {
+    version: KEY_BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: Buffer.from(salt).toString('base64') },
+    cipher: { name: 'AES-GCM', iv: Buffer.from(iv).toString('base64') },
+    ciphertext: Buffer.from(ciphertext).toString('base64'),
+  };
+  return JSON.stringify(backup);
+}
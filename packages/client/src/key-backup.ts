@@ -0,0 +1,206 @@
+/**
+ * Passphrase-encrypted backups of the client's ElGamal keys
+ * PBKDF2-SHA256 derives an AES-256-GCM key from the passphrase
+ */
+
+import type { StoredKeys } from './types';
+import { getWebCrypto } from './web-crypto';
+
+export const KEY_BACKUP_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 310_000;
+
+// Iteration counts accepted when restoring: fewer is too weak, more would hang the page deriving the key
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+/**
+ * Serialized key backup (versioned so the format can evolve)
+ */
+export interface KeyBackup {
+  version: number;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string; // Base64
+  };
+  cipher: {
+    name: 'AES-GCM';
+    iv: string; // Base64
+  };
+  ciphertext: string; // Base64 encrypted StoredKeys JSON
+}
+
+/**
+ * Encrypt stored keys with a passphrase
+ *
+ * @param keys - Keys to back up (active and retired)
+ * @param passphrase - User passphrase
+ * @returns JSON-encoded key backup
+ */
+export async function encryptKeyBackup(keys: StoredKeys, passphrase: string): Promise<string> {
+  if (!passphrase) {
+    throw new KeyBackupError('Passphrase is required');
+  }
+
+  const subtle = await getSubtleCrypto();
+  const salt = await randomBytes(16);
+  const iv = await randomBytes(12);
+  const aesKey = await deriveKey(subtle, passphrase, salt, PBKDF2_ITERATIONS);
+
+  const plaintext = new TextEncoder().encode(JSON.stringify(keys));
+  const ciphertext = await subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, plaintext);
+
+  const backup: KeyBackup = {
+    version: KEY_BACKUP_VERSION,
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: bytesToBase64(salt),
+    },
+    cipher: {
+      name: 'AES-GCM',
+      iv: bytesToBase64(iv),
+    },
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+
+  return JSON.stringify(backup);
+}
+
+/**
+ * Decrypt a key backup produced by encryptKeyBackup
+ *
+ * @param blob - JSON-encoded key backup
+ * @param passphrase - Passphrase used for the backup
+ * @returns Restored keys
+ */
+export async function decryptKeyBackup(blob: string, passphrase: string): Promise<StoredKeys> {
+  let backup: KeyBackup;
+  try {
+    backup = JSON.parse(blob);
+  } catch (error) {
+    throw new KeyBackupError('Invalid key backup: not valid JSON');
+  }
+
+  if (backup.version !== KEY_BACKUP_VERSION) {
+    throw new KeyBackupError(`Unsupported key backup version: ${backup.version}`);
+  }
+
+  if (
+    backup.kdf?.name !== 'PBKDF2' || backup.kdf.hash !== 'SHA-256'
+    || backup.cipher?.name !== 'AES-GCM' || typeof backup.ciphertext !== 'string'
+  ) {
+    throw new KeyBackupError('Invalid key backup: unsupported or missing parameters');
+  }
+
+  const { iterations } = backup.kdf;
+  if (!Number.isInteger(iterations) || iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new KeyBackupError(
+      `Invalid key backup: PBKDF2 iterations must be between ${MIN_PBKDF2_ITERATIONS} and ${MAX_PBKDF2_ITERATIONS}`
+    );
+  }
+
+  const salt = decodeField(backup.kdf.salt, 'salt');
+  const iv = decodeField(backup.cipher.iv, 'iv');
+  const ciphertext = decodeField(backup.ciphertext, 'ciphertext');
+  if (salt.length < 16 || iv.length !== 12) {
+    throw new KeyBackupError('Invalid key backup: salt or IV has the wrong length');
+  }
+
+  const subtle = await getSubtleCrypto();
+  const aesKey = await deriveKey(subtle, passphrase, salt, iterations);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await subtle.decrypt({ name: 'AES-GCM', iv }, aesKey, ciphertext);
+  } catch (error) {
+    throw new KeyBackupError('Failed to decrypt key backup: wrong passphrase or corrupted data');
+  }
+
+  let keys: StoredKeys;
+  try {
+    keys = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch (error) {
+    throw new KeyBackupError('Invalid key backup: decrypted payload is not valid JSON');
+  }
+  if (!keys?.privateKey || !keys.publicKey?.x || !keys.publicKey?.y) {
+    throw new KeyBackupError('Invalid key backup: missing key material');
+  }
+
+  return keys;
+}
+
+async function deriveKey(
+  subtle: SubtleCrypto,
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function getSubtleCrypto(): Promise<SubtleCrypto> {
+  return (await getWebCrypto()).subtle;
+}
+
+async function randomBytes(length: number) {
+  return (await getWebCrypto()).getRandomValues(new Uint8Array(length));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Helper: Decode a base64 field of a backup
+ */
+function decodeField(value: unknown, name: string) {
+  try {
+    if (typeof value !== 'string') {
+      throw new Error('not a string');
+    }
+    return base64ToBytes(value);
+  } catch (error) {
+    throw new KeyBackupError(`Invalid key backup: ${name} is not base64`);
+  }
+}
+
+/**
+ * Custom error for key backup failures
+ */
+export class KeyBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyBackupError';
+  }
+}
@@ -0,0 +1,65 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { chmod, mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileKeyStore, KeyStoreError, createDefaultKeyStore } from './key-store';
+import type { StoredKeys } from './types';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'shadowpay-keys-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('FileKeyStore', () => {
+  it('round-trips keys and writes them with mode 0600', async () => {
+    const store = new FileKeyStore(join(dir, 'keys.json'));
+    expect(await store.load()).toBeNull();
+
+    await store.save(keys('1'));
+    expect(await store.load()).toEqual(keys('1'));
+    expect((await stat(join(dir, 'keys.json'))).mode & 0o777).toBe(0o600);
+  });
+
+  it('tightens the mode of an existing file', async () => {
+    const file = join(dir, 'keys.json');
+    await writeFile(file, JSON.stringify(keys('0')));
+    await chmod(file, 0o644);
+
+    await new FileKeyStore(file).save(keys('1'));
+    expect((await stat(file)).mode & 0o777).toBe(0o600);
+  });
+
+  it('serializes concurrent saves so the last one wins with a complete file', async () => {
+    const store = new FileKeyStore(join(dir, 'keys.json'));
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.save(keys(String(i)))));
+    expect(JSON.parse(await readFile(join(dir, 'keys.json'), 'utf-8'))).toEqual(keys('19'));
+  });
+
+  it('throws KeyStoreError for an unreadable file', async () => {
+    await writeFile(join(dir, 'keys.json'), 'not json');
+    await expect(new FileKeyStore(join(dir, 'keys.json')).load()).rejects.toBeInstanceOf(KeyStoreError);
+  });
+
+  it('clears the file', async () => {
+    const store = new FileKeyStore(join(dir, 'keys.json'));
+    await store.save(keys('1'));
+    await store.clear();
+    expect(await store.load()).toBeNull();
+  });
+});
+
+describe('createDefaultKeyStore', () => {
+  it('rejects outside browsers instead of keeping keys in memory', async () => {
+    await expect(createDefaultKeyStore().load()).rejects.toBeInstanceOf(KeyStoreError);
+  });
+});
+
+function keys(privateKey: string): StoredKeys {
+  return { privateKey, publicKey: { x: '1', y: '2' }, createdAt: 0 };
+}
@@ -0,0 +1,241 @@
+/**
+ * Storage backends for the client's ElGamal keys
+ * Lets the same payment code run in browsers, Electron and headless Node processes
+ */
+
+import { STORAGE_KEYS, getLogger } from '@shadowpay/core';
+import type { StoredKeys } from './types';
+import { writeJsonFile, removeJsonFile } from './json-file';
+
+/**
+ * Persistence for the user's ElGamal keys
+ * Implement this to plug in your own storage (secure enclave, OS keychain, etc.)
+ */
+export interface KeyStore {
+  /** Load stored keys, or null if none have been saved yet */
+  load(): Promise<StoredKeys | null>;
+  /** Persist keys, replacing anything previously stored */
+  save(keys: StoredKeys): Promise<void>;
+  /** Remove stored keys */
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory key store
+ * Keys live for the lifetime of the instance (useful for tests and short-lived scripts)
+ */
+export class MemoryKeyStore implements KeyStore {
+  private keys: StoredKeys | null;
+
+  constructor(initial?: StoredKeys) {
+    this.keys = initial ?? null;
+  }
+
+  async load(): Promise<StoredKeys | null> {
+    return this.keys;
+  }
+
+  async save(keys: StoredKeys): Promise<void> {
+    this.keys = keys;
+  }
+
+  async clear(): Promise<void> {
+    this.keys = null;
+  }
+}
+
+/**
+ * localStorage key store (default in browsers)
+ * Compatible with keys saved by earlier SDK versions
+ */
+export class LocalStorageKeyStore implements KeyStore {
+  private storageKey: string;
+
+  constructor(storageKey: string = STORAGE_KEYS.ELGAMAL_KEYS) {
+    this.storageKey = storageKey;
+  }
+
+  async load(): Promise<StoredKeys | null> {
+    const stored = getLocalStorage().getItem(this.storageKey);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as StoredKeys;
+    } catch (error) {
+      getLogger().warn('Failed to parse stored keys, ignoring them');
+      return null;
+    }
+  }
+
+  async save(keys: StoredKeys): Promise<void> {
+    getLocalStorage().setItem(this.storageKey, JSON.stringify(keys));
+  }
+
+  async clear(): Promise<void> {
+    getLocalStorage().removeItem(this.storageKey);
+  }
+}
+
+/**
+ * IndexedDB key store
+ * Works in browsers, Electron renderers and web workers
+ */
+export class IndexedDBKeyStore implements KeyStore {
+  private dbName: string;
+  private storeName: string;
+  private recordKey: string;
+
+  constructor(options: { dbName?: string; storeName?: string; recordKey?: string } = {}) {
+    this.dbName = options.dbName || 'shadowpay';
+    this.storeName = options.storeName || 'keys';
+    this.recordKey = options.recordKey || STORAGE_KEYS.ELGAMAL_KEYS;
+  }
+
+  async load(): Promise<StoredKeys | null> {
+    const result = await this.run<StoredKeys | undefined>('readonly', store => store.get(this.recordKey));
+    return result ?? null;
+  }
+
+  async save(keys: StoredKeys): Promise<void> {
+    await this.run('readwrite', store => store.put(keys, this.recordKey));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.delete(this.recordKey));
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(this.storeName, mode);
+        const request = operation(transaction.objectStore(this.storeName));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      throw new KeyStoreError('IndexedDB not available in this environment');
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(
+        new KeyStoreError(`Failed to open IndexedDB: ${request.error?.message || 'Unknown error'}`)
+      );
+    });
+  }
+}
+
+/**
+ * File system key store (Node.js / Electron main process)
+ * Keys are written as JSON readable only by the current user (0600). Each save replaces the file atomically
+ * (temp file + rename) after any earlier save, so a crash or a concurrent save never leaves it truncated
+ */
+export class FileKeyStore implements KeyStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<StoredKeys | null> {
+    const fs = await import('fs/promises');
+
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf-8');
+      return JSON.parse(contents) as StoredKeys;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new KeyStoreError(
+        `Failed to read keys from ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async save(keys: StoredKeys): Promise<void> {
+    // The renamed temp file carries 0600, so an existing file with looser permissions is replaced too
+    await writeJsonFile(this.filePath, keys, { mode: 0o600 });
+  }
+
+  async clear(): Promise<void> {
+    await removeJsonFile(this.filePath);
+  }
+}
+
+/**
+ * Pick a key store for the current environment
+ * localStorage in browsers. Elsewhere there is no safe default: keys held in memory are lost at exit,
+ * and so is every amount encrypted to them. The returned store rejects every call until a keyStore is passed
+ *
+ * @returns Default key store
+ */
+export function createDefaultKeyStore(): KeyStore {
+  if (typeof window !== 'undefined' && window.localStorage) {
+    return new LocalStorageKeyStore();
+  }
+  return new UnavailableKeyStore();
+}
+
+/**
+ * Helper: Default key store outside browsers
+ * Fails on use rather than on creation, so clients can still be constructed during server-side rendering
+ */
+class UnavailableKeyStore implements KeyStore {
+  async load(): Promise<StoredKeys | null> {
+    throw noKeyStoreError();
+  }
+
+  async save(): Promise<void> {
+    throw noKeyStoreError();
+  }
+
+  async clear(): Promise<void> {
+    throw noKeyStoreError();
+  }
+}
+
+/**
+ * Helper: Error explaining how to configure a key store
+ */
+function noKeyStoreError(): KeyStoreError {
+  return new KeyStoreError(
+    'No persistent key store in this environment: pass keyStore (e.g. new FileKeyStore(path)) or use NodePayer'
+  );
+}
+
+function getLocalStorage(): Storage {
+  if (typeof window === 'undefined' || !window.localStorage) {
+    throw new KeyStoreError('localStorage not available in this environment');
+  }
+  return window.localStorage;
+}
+
+/**
+ * Custom error for key storage failures
+ */
+export class KeyStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyStoreError';
+  }
+}
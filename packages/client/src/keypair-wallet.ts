@@ -0,0 +1,106 @@
+/**
+ * Keypair-backed wallet for headless environments
+ * Lets Node.js services and agents pay without a browser wallet
+ */
+
+import { Keypair, Transaction, VersionedTransaction, type PublicKey } from '@solana/web3.js';
+import { WalletError, type WalletInterface, type SignableTransaction } from './wallet-adapter';
+
+/**
+ * WalletInterface backed by a local Keypair
+ *
+ * @example
+ * ```typescript
+ * const wallet = await KeypairWallet.fromFile('~/.config/solana/id.json');
+ * await shadowpay.pay({ amount: 0.001, wallet });
+ * ```
+ */
+export class KeypairWallet implements WalletInterface {
+  readonly publicKey: PublicKey;
+  readonly connected = true;
+  private keypair: Keypair;
+
+  constructor(keypair: Keypair) {
+    this.keypair = keypair;
+    this.publicKey = keypair.publicKey;
+  }
+
+  /**
+   * Create a wallet from a 64-byte secret key
+   *
+   * @param secretKey - Ed25519 secret key (as in a Solana CLI keypair file)
+   * @returns Keypair wallet
+   */
+  static fromSecretKey(secretKey: Uint8Array | number[]): KeypairWallet {
+    try {
+      return new KeypairWallet(Keypair.fromSecretKey(Uint8Array.from(secretKey)));
+    } catch (error) {
+      throw new WalletError(
+        `Invalid secret key: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Load a wallet from a Solana CLI keypair file (JSON array of 64 bytes)
+   *
+   * @param filePath - Path to the keypair file ('~' expands to the home directory)
+   * @returns Keypair wallet
+   */
+  static async fromFile(filePath: string): Promise<KeypairWallet> {
+    const fs = await import('fs/promises');
+    const resolved = await expandHome(filePath);
+
+    let secretKey: unknown;
+    try {
+      secretKey = JSON.parse(await fs.readFile(resolved, 'utf-8'));
+    } catch (error) {
+      throw new WalletError(
+        `Failed to read keypair file ${resolved}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (!Array.isArray(secretKey)) {
+      throw new WalletError(`Keypair file ${resolved} must contain a JSON array of bytes`);
+    }
+    return KeypairWallet.fromSecretKey(secretKey);
+  }
+
+  async signTransaction<T extends SignableTransaction>(transaction: T): Promise<T> {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([this.keypair]);
+    } else {
+      (transaction as Transaction).partialSign(this.keypair);
+    }
+    return transaction;
+  }
+
+  async signAllTransactions<T extends SignableTransaction>(transactions: T[]): Promise<T[]> {
+    return Promise.all(transactions.map(tx => this.signTransaction(tx)));
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const crypto = await import('crypto');
+    const privateKey = crypto.createPrivateKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        d: Buffer.from(this.keypair.secretKey.slice(0, 32)).toString('base64url'),
+        x: Buffer.from(this.publicKey.toBytes()).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    return new Uint8Array(crypto.sign(null, message, privateKey));
+  }
+}
+
+/**
+ * Helper: Expand a leading '~' to the home directory
+ */
+async function expandHome(filePath: string): Promise<string> {
+  if (filePath !== '~' && !filePath.startsWith('~/')) {
+    return filePath;
+  }
+  const os = await import('os');
+  return os.homedir() + filePath.slice(1);
+}
@@ -0,0 +1,107 @@
+/**
+ * Headless payer for Node.js
+ * Runs the authorize → prove → settle pipeline with a local keypair and on-disk state
+ */
+
+import { Keypair } from '@solana/web3.js';
+import { ShadowPay } from './ShadowPayClient';
+import { KeypairWallet } from './keypair-wallet';
+import { FileKeyStore } from './key-store';
+import { FileSettlementStore } from './settlement-store';
+import { FileArtifactCache } from './circuit-artifacts';
+import { FileHistoryStore } from './payment-history';
+import { FileShadowIDCache } from './shadowid';
+import type { WalletInterface } from './wallet-adapter';
+import type { ShadowPayOptions, PaymentOptions, PaymentResult } from './types';
+
+export interface NodePayerOptions extends ShadowPayOptions {
+  wallet?: KeypairWallet | Keypair; // Paying wallet
+  keypairPath?: string; // Solana CLI keypair file, used when wallet is not given
+  dataDir?: string; // Where keys, pending settlements, history and the circuit are stored (default: ~/.shadowpay)
+}
+
+export type NodePaymentOptions = Omit<PaymentOptions, 'wallet'> & {
+  wallet?: WalletInterface; // Defaults to the payer's wallet
+};
+
+/**
+ * ShadowPay client for servers, scripts and agents
+ * ElGamal keys, pending settlements, payment history and circuit artifacts live under dataDir
+ *
+ * @example
+ * ```typescript
+ * const payer = await NodePayer.create({
+ *   merchantKey: process.env.MERCHANT_KEY!,
+ *   merchantWallet: process.env.MERCHANT_WALLET!,
+ *   keypairPath: '~/.config/solana/id.json',
+ *   autoResumeSettlements: true,
+ * });
+ *
+ * const payment = await payer.pay({ amount: 0.001 });
+ * ```
+ */
+export class NodePayer extends ShadowPay {
+  readonly wallet: KeypairWallet;
+
+  private constructor(options: ShadowPayOptions, wallet: KeypairWallet) {
+    super(options);
+    this.wallet = wallet;
+  }
+
+  /**
+   * Load the wallet and set up file-backed stores
+   *
+   * @param options - ShadowPay options plus wallet and data directory
+   * @returns Node payer
+   */
+  static async create(options: NodePayerOptions): Promise<NodePayer> {
+    const path = await import('path');
+    const os = await import('os');
+    const { wallet, keypairPath, dataDir, ...shadowPayOptions } = options;
+
+    let payerWallet: KeypairWallet;
+    if (wallet instanceof KeypairWallet) {
+      payerWallet = wallet;
+    } else if (wallet) {
+      payerWallet = new KeypairWallet(wallet);
+    } else if (keypairPath) {
+      payerWallet = await KeypairWallet.fromFile(keypairPath);
+    } else {
+      throw new Error('NodePayer requires a wallet or keypairPath');
+    }
+
+    const directory = dataDir || path.join(os.homedir(), '.shadowpay');
+    const walletDirectory = path.join(directory, payerWallet.publicKey.toBase58());
+
+    return new NodePayer(
+      {
+        ...shadowPayOptions,
+        keyStore: shadowPayOptions.keyStore || new FileKeyStore(path.join(walletDirectory, 'elgamal-keys.json')),
+        settlementStore: shadowPayOptions.settlementStore
+          || new FileSettlementStore(path.join(walletDirectory, 'pending-settlements.json')),
+        historyStore: shadowPayOptions.historyStore
+          || new FileHistoryStore(path.join(walletDirectory, 'payment-history.json')),
+        shadowIdCache: shadowPayOptions.shadowIdCache || new FileShadowIDCache(path.join(directory, 'shadowid.json')),
+        artifactCache: shadowPayOptions.artifactCache || new FileArtifactCache(path.join(directory, 'circuits')),
+      },
+      payerWallet
+    );
+  }
+
+  /**
+   * Make a payment from the payer's wallet
+   *
+   * @param options - Payment options (wallet defaults to the payer's wallet)
+   * @returns Payment result with access token
+   */
+  async pay(options: NodePaymentOptions): Promise<PaymentResult> {
+    return super.pay({ ...options, wallet: this.resolveWallet(options.wallet) });
+  }
+
+  /**
+   * Helper: Pay from the payer's wallet unless another one is given
+   */
+  protected resolveWallet(wallet?: WalletInterface): WalletInterface {
+    return wallet || this.wallet;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Typed payment lifecycle events
+ * Lets UIs drive progress bars and error states without polling the payment result
+ */
+
+import { getLogger, type Logger } from '@shadowpay/core';
+import type { Settlement } from './types';
+
+/**
+ * Stage of the payment pipeline (reported with failures)
+ */
+export type PaymentStage =
+  | 'preflight'
+  | 'registration'
+  | 'authorization'
+  | 'merkle-proof'
+  | 'proving'
+  | 'settlement';
+
+/**
+ * Payload for each lifecycle event
+ * Every payload carries the paymentId returned in PaymentResult
+ */
+export interface PaymentEventMap {
+  registered: {
+    paymentId: string;
+    senderCommitment: string; // ShadowID commitment of the payer
+  };
+  authorized: {
+    paymentId: string;
+    commitment: string;
+    accessToken: string;
+    expiresAt: number; // Unix timestamp
+    proofDeadline: number; // Unix timestamp
+  };
+  'merkle-proof-fetched': {
+    paymentId: string;
+    commitment: string;
+    root: string;
+  };
+  'proof-started': {
+    paymentId: string;
+    commitment: string;
+  };
+  'proof-generated': {
+    paymentId: string;
+    commitment: string;
+    durationMs: number;
+  };
+  'settlement-submitted': {
+    paymentId: string;
+    commitment: string;
+  };
+  settled: {
+    paymentId: string;
+    commitment: string;
+    settlement: Settlement;
+  };
+  failed: {
+    paymentId: string;
+    commitment?: string; // Missing if the payment failed before authorization
+    stage: PaymentStage;
+    error: Error;
+  };
+}
+
+export type PaymentEventType = keyof PaymentEventMap;
+
+/**
+ * Discriminated union of all events, e.g. `{ type: 'settled', paymentId, commitment, settlement }`
+ */
+export type PaymentEvent = {
+  [K in PaymentEventType]: { type: K } & PaymentEventMap[K];
+}[PaymentEventType];
+
+export type PaymentEventListener<K extends PaymentEventType> = (payload: PaymentEventMap[K]) => void;
+
+/**
+ * Minimal typed event emitter for payment events
+ * Listener errors are caught so they can't break the payment pipeline
+ */
+export class PaymentEventEmitter {
+  private logger: Logger;
+  private listeners = new Map<PaymentEventType, Set<PaymentEventListener<any>>>();
+  private anyListeners = new Set<(event: PaymentEvent) => void>();
+
+  /**
+   * @param logger - Receives errors thrown by listeners (default: SDK-wide logger)
+   */
+  constructor(logger: Logger = getLogger()) {
+    this.logger = logger;
+  }
+
+  /**
+   * Subscribe to an event
+   *
+   * @param type - Event type
+   * @param listener - Called with the event payload
+   * @returns Function that removes the listener
+   */
+  on<K extends PaymentEventType>(type: K, listener: PaymentEventListener<K>): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Subscribe to an event for a single emission
+   */
+  once<K extends PaymentEventType>(type: K, listener: PaymentEventListener<K>): () => void {
+    const off = this.on(type, payload => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Remove a listener
+   */
+  off<K extends PaymentEventType>(type: K, listener: PaymentEventListener<K>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Subscribe to every event (receives the discriminated union)
+   *
+   * @returns Function that removes the listener
+   */
+  onAny(listener: (event: PaymentEvent) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => this.anyListeners.delete(listener);
+  }
+
+  /**
+   * Emit an event to all listeners
+   */
+  emit<K extends PaymentEventType>(type: K, payload: PaymentEventMap[K]): void {
+    for (const listener of Array.from(this.listeners.get(type) || [])) {
+      safeCall(() => listener(payload), this.logger);
+    }
+
+    const event = { type, ...payload } as PaymentEvent;
+    for (const listener of Array.from(this.anyListeners)) {
+      safeCall(() => listener(event), this.logger);
+    }
+  }
+
+  /**
+   * Remove all listeners
+   */
+  removeAllListeners(): void {
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+}
+
+function safeCall(fn: () => void, logger: Logger): void {
+  try {
+    fn();
+  } catch (error) {
+    logger.error('Payment event listener error', error);
+  }
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { LocalStorageHistoryStore, queryPaymentHistory, exportPaymentHistory } from './payment-history';
+import type { PaymentHistory } from './types';
+
+function record(overrides: Partial<PaymentHistory>): PaymentHistory {
+  return {
+    paymentId: 'p1',
+    timestamp: Date.UTC(2024, 9, 1),
+    updatedAt: Date.UTC(2024, 9, 1),
+    status: 'settled',
+    amount: 0.29,
+    token: 'USDC',
+    lamports: 290000,
+    recipient: 'MerchantWallet',
+    merchantKey: 'MerchantKey',
+    commitment: '1',
+    nullifier: '2',
+    ...overrides,
+  };
+}
+
+describe('queryPaymentHistory', () => {
+  const records = [
+    record({ paymentId: 'a', timestamp: 1, token: 'SOL', status: 'failed' }),
+    record({ paymentId: 'b', timestamp: 2 }),
+    record({ paymentId: 'c', timestamp: 3, recipient: 'OtherWallet', merchantKey: 'OtherKey' }),
+    record({ paymentId: 'd', timestamp: 4, status: 'authorized' }),
+  ];
+
+  it('filters, sorts newest first and paginates', () => {
+    const page = queryPaymentHistory(records, { token: 'usdc', offset: 1, limit: 1 });
+    expect(page).toEqual({ items: [records[2]], total: 3, offset: 1, limit: 1 });
+  });
+
+  it('matches the merchant by wallet or API key', () => {
+    expect(queryPaymentHistory(records, { merchant: 'OtherWallet' }).items.map(r => r.paymentId)).toEqual(['c']);
+    expect(queryPaymentHistory(records, { merchant: 'OtherKey' }).items.map(r => r.paymentId)).toEqual(['c']);
+  });
+
+  it('filters by status and time range', () => {
+    const page = queryPaymentHistory(records, { status: ['settled', 'failed'], from: 2, to: 4, order: 'asc' });
+    expect(page.items.map(r => r.paymentId)).toEqual(['b', 'c']);
+  });
+});
+
+describe('exportPaymentHistory', () => {
+  it('prefixes cells a spreadsheet would run as formulas', () => {
+    const csv = exportPaymentHistory([
+      record({ paymentId: '=HYPERLINK("https://evil.test")', recipient: '@SUM(A1)', error: '+1', nullifier: '-2' }),
+    ], 'csv');
+    const [, row] = csv.split('\n');
+    expect(row.startsWith(`"'=HYPERLINK(""https://evil.test"")",2024-10-01T00:00:00.000Z,`)).toBe(true);
+    expect(row).toContain(",'@SUM(A1),");
+    expect(row).toContain(",'-2,");
+    expect(row.endsWith(",'+1")).toBe(true);
+  });
+
+  it('prefixes tab and carriage return too, and still quotes the cell', () => {
+    const csv = exportPaymentHistory([record({ error: '\t=1', signature: '\rsig' })], 'csv');
+    expect(csv).toContain(`"'\rsig"`);
+    expect(csv).toContain(`'\t=1`);
+  });
+
+  it('exports JSON unchanged', () => {
+    const records = [record({ paymentId: '=1' })];
+    expect(JSON.parse(exportPaymentHistory(records, 'json'))).toEqual(records);
+  });
+});
+
+describe('LocalStorageHistoryStore', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('upgrades records saved by older versions without exposing the API key as recipient', async () => {
+    window.localStorage.setItem('history', JSON.stringify([
+      { timestamp: 5, amount: 0.001, token: 'SOL', recipient: 'LegacyApiKey', nullifier: 'n1', signature: 'sig' },
+    ]));
+
+    const [legacy] = await new LocalStorageHistoryStore('history').list();
+    expect(legacy).toMatchObject({
+      paymentId: 'n1',
+      status: 'settled',
+      recipient: '',
+      merchantKey: 'LegacyApiKey',
+      signature: 'sig',
+    });
+  });
+
+  it('replaces a record by paymentId', async () => {
+    const store = new LocalStorageHistoryStore('history');
+    await store.put(record({ status: 'authorized' }));
+    await store.put(record({ status: 'settled' }));
+    expect(await store.list()).toEqual([record({ status: 'settled' })]);
+  });
+});
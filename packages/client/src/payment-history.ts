@@ -0,0 +1,273 @@
+/**
+ * Payment history storage, queries and export
+ * Records every payment from authorization to settlement or failure
+ */
+
+import { STORAGE_KEYS, getLogger, type Logger } from '@shadowpay/core';
+import { readJsonFile, updateJsonFile, removeJsonFile } from './json-file';
+import type { PaymentHistory, PaymentStatus } from './types';
+
+/**
+ * Storage for payment history records, keyed by paymentId
+ */
+export interface PaymentHistoryStore {
+  /** Get one record */
+  get(paymentId: string): Promise<PaymentHistory | null>;
+  /** Add or replace a record */
+  put(record: PaymentHistory): Promise<void>;
+  /** All records, in insertion order */
+  list(): Promise<PaymentHistory[]>;
+  /** Remove every record */
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory history store (does not survive reloads)
+ */
+export class MemoryHistoryStore implements PaymentHistoryStore {
+  private records = new Map<string, PaymentHistory>();
+
+  async get(paymentId: string): Promise<PaymentHistory | null> {
+    return this.records.get(paymentId) ?? null;
+  }
+
+  async put(record: PaymentHistory): Promise<void> {
+    this.records.set(record.paymentId, record);
+  }
+
+  async list(): Promise<PaymentHistory[]> {
+    return Array.from(this.records.values());
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+/**
+ * localStorage history store (default in browsers)
+ * Reads records written by earlier SDK versions, which had no paymentId or status
+ */
+export class LocalStorageHistoryStore implements PaymentHistoryStore {
+  private storageKey: string;
+
+  constructor(storageKey: string = STORAGE_KEYS.PAYMENT_HISTORY) {
+    this.storageKey = storageKey;
+  }
+
+  async get(paymentId: string): Promise<PaymentHistory | null> {
+    return (await this.list()).find(r => r.paymentId === paymentId) ?? null;
+  }
+
+  async put(record: PaymentHistory): Promise<void> {
+    const records = await this.list();
+    const index = records.findIndex(r => r.paymentId === record.paymentId);
+    if (index >= 0) {
+      records[index] = record;
+    } else {
+      records.push(record);
+    }
+    window.localStorage.setItem(this.storageKey, JSON.stringify(records));
+  }
+
+  async list(): Promise<PaymentHistory[]> {
+    const stored = window.localStorage.getItem(this.storageKey);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      return (JSON.parse(stored) as Partial<PaymentHistory>[]).map(upgradeLegacyRecord);
+    } catch (error) {
+      getLogger().warn('Failed to parse payment history, ignoring it');
+      return [];
+    }
+  }
+
+  async clear(): Promise<void> {
+    window.localStorage.removeItem(this.storageKey);
+  }
+}
+
+/**
+ * File system history store (Node.js / Electron main process)
+ * Writes are serialized and atomic, so concurrent payments never drop each other's records
+ */
+export class FileHistoryStore implements PaymentHistoryStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(paymentId: string): Promise<PaymentHistory | null> {
+    return (await this.list()).find(r => r.paymentId === paymentId) ?? null;
+  }
+
+  async put(record: PaymentHistory): Promise<void> {
+    await updateJsonFile<PaymentHistory[]>(
+      this.filePath,
+      [],
+      records => {
+        const index = records.findIndex(r => r.paymentId === record.paymentId);
+        return index >= 0
+          ? records.map((r, i) => (i === index ? record : r))
+          : [...records, record];
+      },
+      { mode: 0o600 }
+    );
+  }
+
+  async list(): Promise<PaymentHistory[]> {
+    return readJsonFile<PaymentHistory[]>(this.filePath, []);
+  }
+
+  async clear(): Promise<void> {
+    await removeJsonFile(this.filePath);
+  }
+}
+
+/**
+ * Pick a history store for the current environment
+ * localStorage in browsers, in-memory everywhere else (with a warning: history is lost at exit)
+ *
+ * @param logger - Where the in-memory warning goes (default: SDK-wide logger)
+ * @returns Default history store
+ */
+export function createDefaultHistoryStore(logger: Logger = getLogger()): PaymentHistoryStore {
+  if (typeof window !== 'undefined' && window.localStorage) {
+    return new LocalStorageHistoryStore();
+  }
+  logger.warn('Payment history is kept in memory and lost at exit; pass historyStore (e.g. FileHistoryStore) to keep it');
+  return new MemoryHistoryStore();
+}
+
+export interface PaymentHistoryQuery {
+  from?: Date | number; // Created at or after (inclusive)
+  to?: Date | number; // Created before (exclusive)
+  token?: string | string[];
+  merchant?: string; // Merchant wallet or API key
+  status?: PaymentStatus | PaymentStatus[];
+  order?: 'asc' | 'desc'; // By creation time (default: 'desc')
+  offset?: number; // Default: 0
+  limit?: number; // Default: all
+}
+
+export interface PaymentHistoryPage {
+  items: PaymentHistory[];
+  total: number; // Matching records before pagination
+  offset: number;
+  limit?: number;
+}
+
+/**
+ * Filter, sort and paginate history records
+ *
+ * @param records - All history records
+ * @param query - Filters and page
+ * @returns Matching page
+ */
+export function queryPaymentHistory(
+  records: PaymentHistory[],
+  query: PaymentHistoryQuery = {}
+): PaymentHistoryPage {
+  const from = query.from !== undefined ? toTime(query.from) : -Infinity;
+  const to = query.to !== undefined ? toTime(query.to) : Infinity;
+  const tokens = toList(query.token)?.map(t => t.toUpperCase());
+  const statuses = toList(query.status);
+
+  const matching = records
+    .filter(r => r.timestamp >= from && r.timestamp < to)
+    .filter(r => !tokens || tokens.includes(r.token.toUpperCase()))
+    .filter(r => !query.merchant || r.recipient === query.merchant || r.merchantKey === query.merchant)
+    .filter(r => !statuses || statuses.includes(r.status))
+    .sort((a, b) => query.order === 'asc' ? a.timestamp - b.timestamp : b.timestamp - a.timestamp);
+
+  const offset = Math.max(0, query.offset || 0);
+  const items = query.limit !== undefined
+    ? matching.slice(offset, offset + query.limit)
+    : matching.slice(offset);
+
+  return { items, total: matching.length, offset, limit: query.limit };
+}
+
+const CSV_COLUMNS: Array<keyof PaymentHistory> = [
+  'paymentId',
+  'timestamp',
+  'status',
+  'amount',
+  'token',
+  'lamports',
+  'recipient',
+  'merchantKey',
+  'commitment',
+  'nullifier',
+  'signature',
+  'settlementTime',
+  'error',
+];
+
+/**
+ * Serialize history records for receipts and expense reports
+ *
+ * @param records - Records to export
+ * @param format - 'csv' (timestamps as ISO 8601) or 'json'
+ * @returns Exported text
+ */
+export function exportPaymentHistory(records: PaymentHistory[], format: 'csv' | 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify(records, null, 2);
+  }
+
+  const rows = records.map(record => CSV_COLUMNS.map(column => {
+    const value = record[column];
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return csvEscape(column === 'timestamp' ? new Date(value as number).toISOString() : String(value));
+  }).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Helper: Fill in fields missing from records saved before history tracked every state
+ */
+function upgradeLegacyRecord(record: Partial<PaymentHistory>): PaymentHistory {
+  if (record.paymentId) {
+    return record as PaymentHistory;
+  }
+  return {
+    paymentId: record.nullifier || String(record.timestamp),
+    timestamp: record.timestamp || 0,
+    updatedAt: record.timestamp || 0,
+    status: 'settled',
+    amount: record.amount || 0,
+    token: record.token || 'SOL',
+    lamports: 0,
+    recipient: '', // Older versions stored the merchant API key here, not the wallet
+    merchantKey: record.recipient || '',
+    commitment: '',
+    nullifier: record.nullifier || '',
+    signature: record.signature,
+  };
+}
+
+/**
+ * Helper: Quote a CSV cell, prefixing values a spreadsheet would run as a formula with '
+ */
+function csvEscape(value: string): string {
+  const cell = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+function toTime(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function toList<T>(value?: T | T[]): T[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+import type { ShadowPay } from './ShadowPayClient';
+import type { PaymentResult } from './types';
+import { defineShadowPayPaywall, type ShadowPayPaywallElement } from './paywall-element';
+
+vi.mock('./wallet-adapter', () => ({
+  connectWallet: vi.fn(async () => ({ publicKey: null, connected: true })),
+}));
+
+const PAYMENT: PaymentResult = {
+  paymentId: 'p1',
+  accessToken: 'access-token',
+  commitment: '123',
+  status: 'authorized',
+  proofPending: true,
+};
+
+beforeAll(() => {
+  defineShadowPayPaywall();
+});
+
+afterEach(() => {
+  document.body.innerHTML = '';
+  vi.unstubAllGlobals();
+});
+
+/**
+ * Paywall element whose client pays instantly, with src answered by the given response
+ */
+function mountPaywall(response: Response, attributes: Record<string, string> = {}) {
+  const fetcher = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => response);
+  vi.stubGlobal('fetch', fetcher);
+
+  const element = document.createElement('shadowpay-paywall') as ShadowPayPaywallElement;
+  for (const [name, value] of Object.entries({ amount: '0.001', 'merchant-key': 'merchant-key', src: '/api/premium', ...attributes })) {
+    element.setAttribute(name, value);
+  }
+  const pay = vi.fn(async () => PAYMENT);
+  element.client = { pay } as unknown as ShadowPay;
+  element.innerHTML = '<p>Preview</p>';
+  document.body.appendChild(element);
+  return { element, fetcher, pay };
+}
+
+describe('<shadowpay-paywall>', () => {
+  it('pays and requests src with the x402 X-PAYMENT header', async () => {
+    const { element, fetcher, pay } = mountPaywall(new Response('Unlocked', { headers: { 'Content-Type': 'text/plain' } }), {
+      token: 'USDC',
+    });
+
+    await expect(element.unlock()).resolves.toBe('Unlocked');
+    expect(pay).toHaveBeenCalledWith(expect.objectContaining({ amount: 0.001, token: 'USDC' }));
+
+    const [src, init] = fetcher.mock.calls[0];
+    expect(src).toBe('/api/premium');
+    const headers = init!.headers as Record<string, string>;
+    expect(headers['X-Access-Token']).toBe('access-token');
+    expect(JSON.parse(atob(headers['X-PAYMENT']))).toEqual({
+      x402Version: 1,
+      scheme: 'zkproof',
+      network: 'solana-mainnet',
+      payload: { accessToken: 'access-token', commitment: '123' },
+    });
+    expect(element.textContent).toBe('Unlocked');
+  });
+
+  it('shows HTML in a sandboxed iframe by default', async () => {
+    const html = '<p>Article</p><script>window.pwned = true</script>';
+    const { element } = mountPaywall(new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } }));
+
+    await element.unlock();
+    const frame = element.querySelector('iframe')!;
+    expect(frame.getAttribute('sandbox')).toBe('allow-same-origin');
+    expect(frame.srcdoc).toBe(html);
+    expect(element.querySelector('script')).toBeNull();
+  });
+
+  it('inserts HTML into the page with allow-html', async () => {
+    const { element } = mountPaywall(new Response('<p>Article</p>', { headers: { 'Content-Type': 'text/html' } }), {
+      'allow-html': '',
+    });
+
+    await element.unlock();
+    expect(element.innerHTML).toBe('<p>Article</p>');
+  });
+
+  it('unwraps JSON content and lets listeners render it themselves', async () => {
+    const { element } = mountPaywall(Response.json({ content: '<b>Raw</b>' }));
+    const listener = vi.fn((event: Event) => event.preventDefault());
+    element.addEventListener('shadowpay-unlocked', listener);
+
+    await expect(element.unlock()).resolves.toBe('<b>Raw</b>');
+    expect(listener).toHaveBeenCalledOnce();
+    expect(element.innerHTML).toBe('<p>Preview</p>');
+  });
+
+  it('reports a failed content request', async () => {
+    const { element } = mountPaywall(new Response('Payment required', { status: 402 }));
+    const errors: Error[] = [];
+    element.addEventListener('shadowpay-error', event => errors.push((event as CustomEvent).detail.error));
+
+    await expect(element.unlock()).rejects.toThrow('Failed to load content (402)');
+    expect(errors).toHaveLength(1);
+  });
+});
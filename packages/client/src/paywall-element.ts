@@ -0,0 +1,298 @@
+/**
+ * <shadowpay-paywall> custom element
+ * Drop-in paywall for static sites and CMS pages: connect wallet, pay, unlock content
+ */
+
+import { PAYMENT_SCHEME } from '@shadowpay/core';
+import { ShadowPay } from './ShadowPayClient';
+import { connectWallet } from './wallet-adapter';
+import { encodePaymentHeader } from './x402';
+import type { PaymentEvent, PaymentEventType, PaymentStage } from './payment-events';
+import type { PaymentResult } from './types';
+
+export interface PaywallUnlockedDetail {
+  payment: PaymentResult;
+  response: Response; // Response from the protected src (body already read)
+  content: string; // Unlocked text or HTML
+}
+
+// Progress shown while paying and settling
+const PROGRESS: Partial<Record<PaymentEventType, { percent: number; text: string }>> = {
+  registered: { percent: 15, text: 'Authorizing payment…' },
+  authorized: { percent: 35, text: 'Unlocking…' },
+  'proof-started': { percent: 50, text: 'Settling privately…' },
+  'proof-generated': { percent: 85, text: 'Settling privately…' },
+  'settlement-submitted': { percent: 95, text: 'Settling privately…' },
+  settled: { percent: 100, text: 'Payment settled' },
+};
+
+// Failures at these stages happen after access was granted
+const BACKGROUND_STAGES: PaymentStage[] = ['merkle-proof', 'proving', 'settlement'];
+
+const STYLES = `
+  :host { display: block; }
+  [part="panel"] { display: flex; flex-direction: column; gap: 8px; align-items: center; padding: 16px 0; }
+  [part="button"] {
+    font: inherit; padding: 10px 20px; border: 0; border-radius: 8px; cursor: pointer;
+    background: var(--shadowpay-accent, #7c3aed); color: var(--shadowpay-accent-text, #fff);
+  }
+  [part="button"]:disabled { opacity: 0.6; cursor: default; }
+  [part="progress"] { width: 100%; max-width: 320px; height: 4px; border-radius: 2px; background: rgba(127, 127, 127, 0.25); overflow: hidden; }
+  [part="bar"] { height: 100%; width: 0; background: var(--shadowpay-accent, #7c3aed); transition: width 0.3s; }
+  [part="status"] { margin: 0; font-size: 0.875em; opacity: 0.8; min-height: 1.2em; }
+  [hidden] { display: none !important; }
+`;
+
+// Unavailable outside browsers; the element can only be defined where HTMLElement exists
+const ElementBase: typeof HTMLElement = typeof HTMLElement !== 'undefined'
+  ? HTMLElement
+  : (class {} as unknown as typeof HTMLElement);
+
+/**
+ * Paywall element
+ * Children are shown as the locked preview and replaced by the unlocked content
+ *
+ * Attributes: amount, token (default SOL), merchant-key, merchant-wallet, src, api-url, label,
+ * network (default solana-mainnet), allow-html
+ *
+ * src is fetched with the x402 X-PAYMENT header (accepted by createPaymentMiddleware) and X-Access-Token.
+ * text/html responses are shown in a sandboxed iframe unless allow-html is set.
+ *
+ * Events:
+ * - shadowpay-unlocked: detail is PaywallUnlockedDetail; call preventDefault() to render the content yourself
+ * - shadowpay-progress: detail is the PaymentEvent
+ * - shadowpay-error: detail is { error }
+ *
+ * @example
+ * ```html
+ * <script type="module" src="https://esm.sh/@shadowpay/client/paywall"></script>
+ * <shadowpay-paywall amount="0.001" token="SOL" merchant-key="..." merchant-wallet="..." src="/api/premium">
+ *   <p>The first paragraph of the article…</p>
+ * </shadowpay-paywall>
+ * ```
+ */
+export class ShadowPayPaywallElement extends ElementBase {
+  static observedAttributes = ['label'];
+
+  client?: ShadowPay; // Set to share a configured client; otherwise created from the attributes
+  private button!: HTMLButtonElement;
+  private bar!: HTMLElement;
+  private statusText!: HTMLElement;
+  private progress!: HTMLElement;
+  private busy = false;
+
+  connectedCallback(): void {
+    if (this.shadowRoot) {
+      return;
+    }
+
+    const root = this.attachShadow({ mode: 'open' });
+    root.innerHTML = `
+      <style>${STYLES}</style>
+      <slot></slot>
+      <div part="panel">
+        <button part="button" type="button"></button>
+        <div part="progress" hidden><div part="bar"></div></div>
+        <p part="status" role="status" aria-live="polite"></p>
+      </div>
+    `;
+    this.button = root.querySelector('[part="button"]')!;
+    this.progress = root.querySelector('[part="progress"]')!;
+    this.bar = root.querySelector('[part="bar"]')!;
+    this.statusText = root.querySelector('[part="status"]')!;
+
+    this.button.addEventListener('click', () => {
+      this.unlock().catch(() => undefined); // Reported through shadowpay-error
+    });
+    this.renderLabel();
+  }
+
+  attributeChangedCallback(): void {
+    if (this.button) {
+      this.renderLabel();
+    }
+  }
+
+  /**
+   * Connect the wallet, pay, and fetch the protected content
+   * Called when the button is clicked
+   *
+   * @returns Unlocked content
+   */
+  async unlock(): Promise<string> {
+    if (this.busy) {
+      throw new Error('Payment already in progress');
+    }
+    this.busy = true;
+    this.button.disabled = true;
+    this.setProgress(0, 'Connecting wallet…');
+
+    try {
+      const src = this.requireAttribute('src');
+      const wallet = await connectWallet();
+
+      this.setProgress(5, 'Waiting for wallet…');
+      const payment = await this.getClient().pay({
+        amount: Number(this.requireAttribute('amount')),
+        token: this.getAttribute('token') || 'SOL',
+        wallet,
+        onEvent: event => this.handleEvent(event),
+      });
+
+      const response = await fetch(src, { headers: this.accessHeaders(src, payment) });
+      if (!response.ok) {
+        throw new Error(`Failed to load content (${response.status})`);
+      }
+      const content = await readContent(response);
+
+      const unlocked = this.dispatchEvent(new CustomEvent<PaywallUnlockedDetail>('shadowpay-unlocked', {
+        detail: { payment, response, content },
+        bubbles: true,
+        composed: true,
+        cancelable: true,
+      }));
+      if (unlocked) {
+        this.render(content, response);
+      }
+
+      this.button.hidden = true;
+      return content;
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      this.setProgress(null, failure.message);
+      this.button.disabled = false;
+      this.dispatchEvent(new CustomEvent('shadowpay-error', {
+        detail: { error: failure },
+        bubbles: true,
+        composed: true,
+      }));
+      throw failure;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private getClient(): ShadowPay {
+    if (!this.client) {
+      this.client = new ShadowPay({
+        merchantKey: this.requireAttribute('merchant-key'),
+        merchantWallet: this.requireAttribute('merchant-wallet'),
+        apiUrl: this.getAttribute('api-url') || undefined,
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * Headers proving the payment to src
+   * X-PAYMENT carries the x402 payment header; X-Access-Token suits routes that verify the token themselves
+   */
+  private accessHeaders(src: string, payment: PaymentResult): Record<string, string> {
+    const requirement = {
+      scheme: PAYMENT_SCHEME,
+      network: this.getAttribute('network') || 'solana-mainnet',
+      maxAmountRequired: this.requireAttribute('amount'),
+      resource: src,
+      payTo: this.getAttribute('merchant-key') || '',
+      extra: { token: this.getAttribute('token') || 'SOL' },
+    };
+    return {
+      'X-PAYMENT': encodePaymentHeader(requirement, payment),
+      'X-Access-Token': payment.accessToken,
+    };
+  }
+
+  private handleEvent(event: PaymentEvent): void {
+    this.dispatchEvent(new CustomEvent('shadowpay-progress', { detail: event, bubbles: true, composed: true }));
+
+    const step = PROGRESS[event.type];
+    if (step) {
+      this.setProgress(step.percent, step.text);
+    } else if (event.type === 'failed' && BACKGROUND_STAGES.includes(event.stage)) {
+      // Access was already granted; only settlement failed (it is retried by resumePendingSettlements())
+      this.setProgress(null, 'Settlement delayed, your access is not affected');
+    }
+  }
+
+  private render(content: string, response: Response): void {
+    const type = response.headers.get('Content-Type') || '';
+    if (!type.includes('text/html')) {
+      this.textContent = content;
+    } else if (this.hasAttribute('allow-html')) {
+      // Opted in: src is trusted to return safe markup
+      this.innerHTML = content;
+    } else {
+      this.replaceChildren(createContentFrame(content));
+    }
+  }
+
+  private renderLabel(): void {
+    const amount = this.getAttribute('amount');
+    const token = this.getAttribute('token') || 'SOL';
+    this.button.textContent = this.getAttribute('label') || (amount ? `Unlock for ${amount} ${token}` : 'Unlock');
+  }
+
+  private setProgress(percent: number | null, text: string): void {
+    this.progress.hidden = percent === null;
+    if (percent !== null) {
+      this.bar.style.width = `${percent}%`;
+    }
+    this.statusText.textContent = text;
+  }
+
+  private requireAttribute(name: string): string {
+    const value = this.getAttribute(name);
+    if (!value) {
+      throw new Error(`<shadowpay-paywall> is missing the ${name} attribute`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Register the paywall element (no-op outside browsers or if already registered)
+ *
+ * @param tagName - Custom element name (default: 'shadowpay-paywall')
+ */
+export function defineShadowPayPaywall(tagName: string = 'shadowpay-paywall'): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) {
+    return;
+  }
+  // A constructor can only be registered once, so each tag name gets its own subclass
+  customElements.define(tagName, class extends ShadowPayPaywallElement {});
+}
+
+/**
+ * Helper: Show untrusted HTML in an iframe that cannot run scripts
+ * allow-same-origin without allow-scripts only lets this page read the height to size the frame
+ */
+function createContentFrame(html: string): HTMLIFrameElement {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('sandbox', 'allow-same-origin');
+  frame.style.cssText = 'display: block; width: 100%; border: 0;';
+  frame.addEventListener('load', () => {
+    const height = frame.contentDocument?.documentElement.scrollHeight;
+    if (height) {
+      frame.style.height = `${height}px`;
+    }
+  });
+  frame.srcdoc = html;
+  return frame;
+}
+
+/**
+ * Helper: Read the unlocked content
+ * JSON responses with a `content` string (as in the examples) unwrap to that string
+ */
+async function readContent(response: Response): Promise<string> {
+  const text = await response.text();
+  if (!(response.headers.get('Content-Type') || '').includes('application/json')) {
+    return text;
+  }
+  try {
+    const data = JSON.parse(text);
+    return typeof data?.content === 'string' ? data.content : text;
+  } catch (error) {
+    return text;
+  }
+}
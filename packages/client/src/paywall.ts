@@ -0,0 +1,12 @@
+/**
+ * Paywall entry point, published as '@shadowpay/client/paywall'
+ * Registers <shadowpay-paywall> when loaded
+ */
+
+import { defineShadowPayPaywall } from './paywall-element';
+
+export { ShadowPayPaywallElement, defineShadowPayPaywall } from './paywall-element';
+
+export type { PaywallUnlockedDetail } from './paywall-element';
+
+defineShadowPayPaywall();
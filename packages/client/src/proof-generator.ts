@@ -1,10 +1,29 @@
 /**
  * Zero-knowledge proof generation using snarkjs and Groth16
- * Generates proofs for private payments without revealing amounts
+ * Generates proofs for private payments without revealing amounts, and verifies them offline
  */
 
 import * as snarkjs from 'snarkjs';
-import { CIRCUIT_URLS } from '@shadowpay/core';
+import {
+  getLogger,
+  decodePublicSignals,
+  parsePublicSignals,
+  getVerificationKey,
+  PAYMENT_PUBLIC_SIGNALS,
+} from '@shadowpay/core';
+import type {
+  Logger,
+  CircuitVersion,
+  Groth16Proof,
+  Groth16VerificationKey,
+  PaymentPublicSignals,
+} from '@shadowpay/core';
+import { runProver, ProofCancelledError, type ProverOptions } from './prover';
+import {
+  CircuitArtifactManager,
+  getDefaultArtifactManager,
+  type CircuitArtifactSources,
+} from './circuit-artifacts';
 
 // BN254 field modulus (curve order)
 const BN254_FIELD_MODULUS = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
@@ -36,9 +55,15 @@ export interface GeneratedProof {
   publicSignals: string[]; // Public inputs to the circuit
 }
 
-function ensureFieldElement(value: bigint, name: string): bigint {
+export interface GenerateProofOptions extends ProverOptions {
+  artifacts?: CircuitArtifactManager; // Cached circuit artifacts (default: shared manager)
+  circuit?: CircuitArtifactSources; // Custom URLs, file:// paths or bytes (ignored when artifacts is set)
+  logger?: Logger; // Diagnostics (default: SDK-wide logger)
+}
+
+function ensureFieldElement(value: bigint, name: string, logger: Logger = getLogger()): bigint {
   if (value >= BN254_FIELD_MODULUS) {
-    console.warn(`⚠️ ${name} exceeds field modulus, taking modulo`);
+    logger.warn(`${name} exceeds field modulus, taking modulo`);
     return value % BN254_FIELD_MODULUS;
   }
   if (value < 0n) {
@@ -56,9 +81,20 @@ export function pubkeyToFieldElement(pubkey: string): string {
   return '0x' + fieldValue.toString(16).padStart(64, '0');
 }
 
+/**
+ * Generate a Groth16 proof for a payment
+ * Runs in a Web Worker / worker_thread when available (see ProverOptions)
+ * 
+ * @param inputs - Circuit inputs
+ * @param options - Prover mode, worker script, abort signal and artifact manager
+ * @returns Proof and public signals
+ */
 export async function generateProof(
-  inputs: ProofInputs
+  inputs: ProofInputs,
+  options: GenerateProofOptions = {}
 ): Promise<GeneratedProof> {
+  const { artifacts: manager, circuit, logger = getLogger(), ...proverOptions } = options;
+
   try {
     const hexToBigInt = (hex: string): bigint => {
       const cleanHex = hex.startsWith('0x') ? hex.slice(2) : hex;
@@ -74,22 +110,22 @@ export async function generateProof(
     }
     
     const circuitInputs = {
-      sender_commitment: ensureFieldElement(hexToBigInt(inputs.senderCommitment), 'sender_commitment').toString(),
-      sender_secret: ensureFieldElement(hexToBigInt(inputs.senderSecret), 'sender_secret').toString(),
-      receiver_commitment: ensureFieldElement(hexToBigInt(inputs.receiverCommitment), 'receiver_commitment').toString(),
-      amount: ensureFieldElement(inputs.amount, 'amount').toString(),
+      sender_commitment: ensureFieldElement(hexToBigInt(inputs.senderCommitment), 'sender_commitment', logger).toString(),
+      sender_secret: ensureFieldElement(hexToBigInt(inputs.senderSecret), 'sender_secret', logger).toString(),
+      receiver_commitment: ensureFieldElement(hexToBigInt(inputs.receiverCommitment), 'receiver_commitment', logger).toString(),
+      amount: ensureFieldElement(inputs.amount, 'amount', logger).toString(),
       token_mint: tokenMintFieldElement,
-      salt: ensureFieldElement(hexToBigInt(inputs.salt), 'salt').toString(),
+      salt: ensureFieldElement(hexToBigInt(inputs.salt), 'salt', logger).toString(),
       merkle_path: inputs.merklePath,
       path_indices: inputs.pathIndices,
       
-      encrypted_amount_c1: ensureFieldElement(hexToBigInt(inputs.encryptedC1), 'encrypted_amount_c1').toString(),
-      encrypted_amount_c2: ensureFieldElement(hexToBigInt(inputs.encryptedC2), 'encrypted_amount_c2').toString(),
-      elgamal_randomness: ensureFieldElement(hexToBigInt(inputs.elgamalRandomness), 'elgamal_randomness').toString(),
+      encrypted_amount_c1: ensureFieldElement(hexToBigInt(inputs.encryptedC1), 'encrypted_amount_c1', logger).toString(),
+      encrypted_amount_c2: ensureFieldElement(hexToBigInt(inputs.encryptedC2), 'encrypted_amount_c2', logger).toString(),
+      elgamal_randomness: ensureFieldElement(hexToBigInt(inputs.elgamalRandomness), 'elgamal_randomness', logger).toString(),
       
-      shadowid_root: ensureFieldElement(hexToBigInt(inputs.shadowidRoot), 'shadowid_root').toString(),
-      max_amount: ensureFieldElement(inputs.maxAmount, 'max_amount').toString(),
-      receiver_elgamal_pubkey: ensureFieldElement(hexToBigInt(inputs.receiverElGamalPubkey), 'receiver_elgamal_pubkey').toString(),
+      shadowid_root: ensureFieldElement(hexToBigInt(inputs.shadowidRoot), 'shadowid_root', logger).toString(),
+      max_amount: ensureFieldElement(inputs.maxAmount, 'max_amount', logger).toString(),
+      receiver_elgamal_pubkey: ensureFieldElement(hexToBigInt(inputs.receiverElGamalPubkey), 'receiver_elgamal_pubkey', logger).toString(),
     };
     
     for (const [key, value] of Object.entries(circuitInputs)) {
@@ -102,10 +138,17 @@ export async function generateProof(
       }
     }
     
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      circuitInputs,
-      CIRCUIT_URLS.wasm,
-      CIRCUIT_URLS.zkey
+    const artifacts = manager
+      || (circuit ? new CircuitArtifactManager({ sources: circuit }) : getDefaultArtifactManager());
+    const [wasm, zkey] = await Promise.all([artifacts.load('wasm'), artifacts.load('zkey')]);
+
+    const { proof, publicSignals } = await runProver(
+      {
+        inputs: circuitInputs,
+        wasm,
+        zkey,
+      },
+      proverOptions
     );
     
     return {
@@ -113,6 +156,9 @@ export async function generateProof(
       publicSignals,
     };
   } catch (error) {
+    if (error instanceof ProofCancelledError) {
+      throw error;
+    }
     throw new ProofGenerationError(
       `Failed to generate ZK proof: ${error instanceof Error ? error.message : 'Unknown error'}`,
       error
@@ -120,18 +166,136 @@ export async function generateProof(
   }
 }
 
+/**
+ * Verify a Groth16 proof against the circuit's verification key
+ * Uses the bundled key when there is one, otherwise the hosted key
+ *
+ * @deprecated Use verifyPaymentProof(), which tells network errors apart from invalid proofs
+ * @param proof - Groth16 proof
+ * @param publicSignals - Public inputs to the circuit
+ * @param artifacts - Cached circuit artifacts (default: shared manager)
+ * @returns True if the proof is valid
+ */
 export async function verifyProof(
   proof: any,
-  publicSignals: string[]
+  publicSignals: string[],
+  artifacts: CircuitArtifactManager = getDefaultArtifactManager()
 ): Promise<boolean> {
+  const result = await verifyPaymentProof(proof, publicSignals, { artifacts, allowNetwork: true });
+  if (result.status === 'error') {
+    getLogger().error('Proof verification failed', result.message);
+  }
+  return result.valid;
+}
+
+export interface VerifyPaymentProofOptions {
+  circuit?: CircuitVersion; // Circuit version that produced the proof (default: 'elgamal')
+  verificationKey?: Groth16VerificationKey; // Use this key instead of the bundled one
+  allowNetwork?: boolean; // Fetch the hosted key when none is bundled for the circuit (default: false)
+  artifacts?: CircuitArtifactManager; // Where the hosted key is loaded from (default: shared manager for the circuit)
+}
+
+export type PaymentProofFailure =
+  | 'invalid-proof' // The proof does not verify against the key and signals
+  | 'malformed-proof' // Not a Groth16 proof object (or JSON string of one)
+  | 'malformed-signals' // Public signals are not field elements
+  | 'missing-verification-key' // No key bundled for the circuit and network fallback is off
+  | 'network-error' // The hosted key could not be fetched
+  | 'verifier-error'; // The key expects another number of signals, or snarkjs failed
+
+/**
+ * Outcome of verifyPaymentProof()
+ * status 'error' means the proof could not be checked; it says nothing about the proof itself
+ */
+export interface PaymentProofVerification {
+  valid: boolean;
+  status: 'valid' | 'invalid' | 'error';
+  reason?: PaymentProofFailure; // Set unless valid
+  message?: string; // Details for logs
+  circuit: CircuitVersion;
+  signals?: PaymentPublicSignals; // Named signals when their count fits PAYMENT_PUBLIC_SIGNALS, even for invalid proofs
+  keySource?: 'bundled' | 'custom' | 'network'; // Key the proof was checked against
+}
+
+/**
+ * Verify a payment proof without trusting the facilitator
+ * Checks against the key passed in or the one bundled in @shadowpay/core (none is bundled until the
+ * circuit release is pinned; until then pass verificationKey, or allowNetwork for the hosted key)
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyPaymentProof(proof, publicSignals);
+ * if (result.valid) {
+ *   markPaid(result.signals!.nullifier);
+ * } else if (result.status === 'error') {
+ *   retryLater(result.message); // Could not check; the proof may still be valid
+ * }
+ * ```
+ *
+ * @param proof - Groth16 proof, or its JSON string (as sent to the settle endpoint)
+ * @param publicSignals - Public signals (decimal strings)
+ * @param options - Circuit version, key override and network fallback
+ * @returns Verification result with the decoded public signals
+ */
+export async function verifyPaymentProof(
+  proof: Groth16Proof | string,
+  publicSignals: (string | bigint)[],
+  options: VerifyPaymentProofOptions = {}
+): Promise<PaymentProofVerification> {
+  const circuit = options.circuit ?? 'elgamal';
+  const fail = (
+    status: 'invalid' | 'error',
+    reason: PaymentProofFailure,
+    message: string,
+    extra: Partial<PaymentProofVerification> = {}
+  ): PaymentProofVerification => ({ valid: false, status, reason, message, circuit, ...extra });
+
+  const parsedProof = parseGroth16Proof(proof);
+  if (!parsedProof) {
+    return fail('invalid', 'malformed-proof', 'Proof is not a Groth16 proof');
+  }
+
   try {
-    const vkeyResponse = await fetch(CIRCUIT_URLS.vkey);
-    const vkey = await vkeyResponse.json();
-    const isValid = await snarkjs.groth16.verify(vkey, publicSignals, proof);
-    return isValid;
+    parsePublicSignals(publicSignals);
   } catch (error) {
-    console.error('Proof verification failed:', error);
-    return false;
+    return fail('invalid', 'malformed-signals', error instanceof Error ? error.message : String(error));
+  }
+  // The key decides how many signals a proof has; names are only attached when the known layout fits
+  const signals: PaymentPublicSignals | undefined = publicSignals.length === PAYMENT_PUBLIC_SIGNALS[circuit].length
+    ? decodePublicSignals(publicSignals, circuit)
+    : undefined;
+
+  let vkey = options.verificationKey;
+  let keySource: PaymentProofVerification['keySource'] = 'custom';
+  if (!vkey) {
+    vkey = getVerificationKey(circuit);
+    keySource = 'bundled';
+  }
+  if (!vkey) {
+    if (!options.allowNetwork) {
+      return fail('error', 'missing-verification-key', `No verification key bundled for circuit "${circuit}"`, { signals });
+    }
+    try {
+      const artifacts = options.artifacts
+        || (circuit === 'elgamal' ? getDefaultArtifactManager() : new CircuitArtifactManager({ version: circuit }));
+      vkey = await artifacts.loadVerificationKey() as Groth16VerificationKey;
+      keySource = 'network';
+    } catch (error) {
+      return fail('error', 'network-error', `Failed to load verification key: ${error instanceof Error ? error.message : String(error)}`, { signals });
+    }
+  }
+
+  if (vkey.nPublic !== publicSignals.length) {
+    return fail('error', 'verifier-error', `Verification key expects ${vkey.nPublic} public signals, got ${publicSignals.length}`, { signals, keySource });
+  }
+
+  try {
+    const valid = await snarkjs.groth16.verify(vkey, publicSignals.map(s => s.toString()), parsedProof);
+    return valid
+      ? { valid: true, status: 'valid', circuit, signals, keySource }
+      : fail('invalid', 'invalid-proof', 'Proof does not verify', { signals, keySource });
+  } catch (error) {
+    return fail('error', 'verifier-error', error instanceof Error ? error.message : String(error), { signals, keySource });
   }
 }
 
@@ -142,3 +306,27 @@ export class ProofGenerationError extends Error {
   }
 }
 
+/**
+ * Helper: Accept a proof object or its JSON string; undefined if it is not shaped like a Groth16 proof
+ */
+function parseGroth16Proof(proof: Groth16Proof | string): Groth16Proof | undefined {
+  let value: unknown = proof;
+  if (typeof proof === 'string') {
+    try {
+      value = JSON.parse(proof);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  const candidate = value as Partial<Groth16Proof> | null;
+  const isPoint = (point: unknown) => Array.isArray(point) && point.length >= 2;
+  if (
+    !candidate || typeof candidate !== 'object'
+    || !isPoint(candidate.pi_a) || !isPoint(candidate.pi_c)
+    || !isPoint(candidate.pi_b) || !candidate.pi_b!.every(isPoint)
+  ) {
+    return undefined;
+  }
+  return candidate as Groth16Proof;
+}
@@ -0,0 +1,34 @@
+/**
+ * Worker entry for Groth16 proving
+ * Built twice: dist/proof-worker.mjs (browsers, snarkjs bundled in) and dist/proof-worker-node.js
+ * (Node, run through the web-worker polyfill). runProver() starts the right one by default
+ */
+
+import * as snarkjs from 'snarkjs';
+import type { ProverRequest, ProverResponse } from './prover';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ProverRequest>) => void) | null;
+  postMessage: (message: ProverResponse) => void;
+};
+
+// Node worker threads can't start nested workers through the polyfill, so prove on this thread there
+const singleThread = typeof process !== 'undefined' && !!process.versions?.node;
+
+scope.onmessage = async (event: MessageEvent<ProverRequest>) => {
+  const { inputs, wasm, zkey } = event.data;
+
+  try {
+    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+      inputs,
+      wasm as any,
+      zkey as any,
+      undefined,
+      undefined,
+      { singleThread }
+    );
+    scope.postMessage({ ok: true, proof, publicSignals });
+  } catch (error) {
+    scope.postMessage({ ok: false, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,186 @@
+/**
+ * Groth16 prover runtime
+ * Runs snarkjs fullProve in a Web Worker (browser) or worker_thread (Node) so proving doesn't block the UI
+ */
+
+import * as snarkjs from 'snarkjs';
+
+/**
+ * Where proving runs
+ * - 'auto': worker when available, otherwise the current thread
+ * - 'worker': always a worker (fails if none can be started)
+ * - 'main-thread': always the current thread
+ */
+export type ProverMode = 'auto' | 'worker' | 'main-thread';
+
+export interface ProverOptions {
+  mode?: ProverMode; // Default: 'auto'
+  workerUrl?: string | URL; // Worker script (default: the proof-worker shipped next to this module)
+  signal?: AbortSignal; // Cancels proving (terminates the worker)
+}
+
+/**
+ * Message sent to a prover worker
+ */
+export interface ProverRequest {
+  inputs: Record<string, unknown>;
+  wasm: string | Uint8Array;
+  zkey: string | Uint8Array;
+}
+
+/**
+ * Message returned by a prover worker
+ */
+export type ProverResponse =
+  | { ok: true; proof: any; publicSignals: string[] }
+  | { ok: false; error: string };
+
+/**
+ * Run Groth16 fullProve off the main thread when possible
+ *
+ * @param request - Circuit inputs and artifact locations
+ * @param options - Prover mode, worker script and abort signal
+ * @returns Proof and public signals
+ */
+export async function runProver(
+  request: ProverRequest,
+  options: ProverOptions = {}
+): Promise<{ proof: any; publicSignals: string[] }> {
+  const mode = options.mode || 'auto';
+  throwIfAborted(options.signal);
+
+  if (mode !== 'main-thread') {
+    let response: ProverResponse | null = null;
+    try {
+      response = await runInWorker(request, options);
+    } catch (error) {
+      if (error instanceof ProofCancelledError || mode === 'worker') {
+        throw error;
+      }
+      // Worker could not be started, fall back to the current thread
+    }
+
+    if (response) {
+      if (!response.ok) {
+        throw new Error(response.error);
+      }
+      return { proof: response.proof, publicSignals: response.publicSignals };
+    }
+  }
+
+  // snarkjs can't be interrupted on the current thread; honor the signal around it
+  const result = await snarkjs.groth16.fullProve(request.inputs, request.wasm as any, request.zkey as any);
+  throwIfAborted(options.signal);
+  return result;
+}
+
+/**
+ * Start a worker for the current environment and run one proof in it
+ * Resolves null if no worker implementation exists here
+ */
+async function runInWorker(
+  request: ProverRequest,
+  options: ProverOptions
+): Promise<ProverResponse | null> {
+  if (isNode()) {
+    return runInWorkerThread(request, options);
+  }
+
+  if (typeof Worker !== 'undefined') {
+    // Written out in full so bundlers (Vite, webpack 5, Parcel) find the worker and emit it as an asset
+    const worker = options.workerUrl
+      ? new Worker(options.workerUrl, { type: 'module' })
+      : new Worker(new URL('./proof-worker.mjs', import.meta.url), { type: 'module' });
+    return runWorker(worker, request, options.signal);
+  }
+
+  if (options.mode === 'worker') {
+    throw new Error('No Web Worker available in this environment');
+  }
+  return null;
+}
+
+/**
+ * Run one proof in a Node worker_thread
+ * Uses the web-worker polyfill (the one snarkjs itself uses), so the same worker script runs in browsers and Node
+ */
+async function runInWorkerThread(
+  request: ProverRequest,
+  options: ProverOptions
+): Promise<ProverResponse> {
+  const workerUrl = options.workerUrl ?? new URL('./proof-worker-node.js', import.meta.url);
+  await assertWorkerScript(workerUrl);
+
+  const { default: NodeWorker } = await import('web-worker');
+  return runWorker(new NodeWorker(workerUrl), request, options.signal);
+}
+
+function runWorker(
+  worker: Worker,
+  request: ProverRequest,
+  signal?: AbortSignal
+): Promise<ProverResponse> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      worker.terminate();
+      reject(new ProofCancelledError(signal?.reason));
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<ProverResponse>) => {
+      cleanup();
+      resolve(event.data);
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(`Proof worker failed: ${event.message || 'Unknown error'}`));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Helper: Check that a local worker script exists
+ * The Node polyfill only logs a script that fails to load, so a missing file would otherwise never answer
+ */
+async function assertWorkerScript(workerUrl: string | URL): Promise<void> {
+  const url = new URL(String(workerUrl), 'file://' + process.cwd() + '/');
+  if (url.protocol !== 'file:') {
+    return;
+  }
+
+  const [fs, { fileURLToPath }] = await Promise.all([import('fs/promises'), import('url')]);
+  await fs.access(fileURLToPath(url)).catch(() => {
+    throw new Error(`Proof worker script not found: ${fileURLToPath(url)}`);
+  });
+}
+
+function isNode(): boolean {
+  return typeof process !== 'undefined' && !!process.versions?.node && typeof window === 'undefined';
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ProofCancelledError(signal.reason);
+  }
+}
+
+/**
+ * Thrown when proof generation is cancelled through an AbortSignal
+ */
+export class ProofCancelledError extends Error {
+  constructor(public reason?: unknown) {
+    super('Proof generation cancelled');
+    this.name = 'ProofCancelledError';
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Pre-payment quotes and merchant preflight checks
+ * Confirms the merchant configuration before any funds move
+ */
+
+import { TOKENS } from '@shadowpay/core';
+import type { MerchantKeyInfoResponse, SupportedTokensResponse } from './api-client';
+
+/**
+ * Exact amounts for a payment, checked against the merchant's registered configuration
+ */
+export interface PaymentQuote {
+  amount: number; // Human-readable amount
+  token: string; // Token symbol
+  mint: string; // Token mint address
+  decimals: number;
+  lamports: number; // Amount in the token's smallest unit
+  feeLamports: number; // Facilitator fee (0 unless the backend reports one)
+  totalLamports: number; // lamports + feeLamports
+  merchantWallet: string; // Receiving wallet registered for the API key
+  limits: {
+    rpsLimit: number;
+    dailyCommitLimit: number;
+  };
+}
+
+export type PreflightErrorCode =
+  | 'merchant-wallet-mismatch'
+  | 'preflight-unavailable' // The backend does not serve merchant key info (404)
+  | 'unsupported-token'
+  | 'invalid-amount';
+
+/**
+ * Check that the configured merchant wallet is the one registered for the API key
+ *
+ * @param info - Merchant key info from the API
+ * @param merchantWallet - Wallet the client was configured with
+ * @throws PreflightError if the wallets differ
+ */
+export function assertMerchantWallet(info: MerchantKeyInfoResponse, merchantWallet: string): void {
+  if (info.wallet_address !== merchantWallet) {
+    throw new PreflightError(
+      'merchant-wallet-mismatch',
+      `merchantWallet ${merchantWallet} does not match the wallet registered for this API key (${info.wallet_address})`
+    );
+  }
+}
+
+/**
+ * Build a quote from the merchant info and supported tokens
+ *
+ * @param params - Amount, token, merchant info and (optionally) the facilitator's supported tokens
+ * @returns Payment quote
+ * @throws PreflightError if the token is unsupported, the amount is invalid or the merchant wallet differs
+ */
+export function buildQuote(params: {
+  amount: number;
+  token: string;
+  merchantWallet: string;
+  info: MerchantKeyInfoResponse;
+  supported?: SupportedTokensResponse;
+}): PaymentQuote {
+  const token = params.token.toUpperCase();
+  assertMerchantWallet(params.info, params.merchantWallet);
+
+  // Prefer the facilitator's live token list; fall back to the bundled one
+  const config = params.supported
+    ? params.supported.tokens.find(t => t.symbol.toUpperCase() === token)
+    : TOKENS[token];
+  if (!config) {
+    throw new PreflightError('unsupported-token', `Unsupported token: ${token}`);
+  }
+
+  if (!Number.isFinite(params.amount) || params.amount <= 0) {
+    throw new PreflightError('invalid-amount', 'Invalid amount: must be greater than 0');
+  }
+
+  // Round, not floor: 0.29 * 10 ** 6 is 289999.99999999994 in floating point
+  const lamports = Math.round(params.amount * Math.pow(10, config.decimals));
+  if (lamports <= 0) {
+    throw new PreflightError(
+      'invalid-amount',
+      `Amount ${params.amount} ${token} is below the smallest unit (${config.decimals} decimals)`
+    );
+  }
+
+  const feeLamports = params.info.fee_bps ? Math.ceil((lamports * params.info.fee_bps) / 10_000) : 0;
+
+  return {
+    amount: params.amount,
+    token,
+    mint: config.mint,
+    decimals: config.decimals,
+    lamports,
+    feeLamports,
+    totalLamports: lamports + feeLamports,
+    merchantWallet: params.info.wallet_address,
+    limits: {
+      rpsLimit: params.info.rps_limit,
+      dailyCommitLimit: params.info.daily_commit_limit,
+    },
+  };
+}
+
+/**
+ * Thrown when a quote or preflight check fails
+ */
+export class PreflightError extends Error {
+  constructor(public code: PreflightErrorCode, message: string) {
+    super(message);
+    this.name = 'PreflightError';
+  }
+}
@@ -0,0 +1,90 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { NetworkError, ShadowPayError } from '@shadowpay/core';
+import {
+  resolvePaymentReference,
+  commitmentValue,
+  pollUntilSettled,
+  SettlementRejectedError,
+  type PaymentStatusResult,
+} from './settlement-status';
+
+const FIELD_MODULUS = '21888242871839275222246405745257275088548364400416034343698204186575808495617';
+
+describe('commitmentValue', () => {
+  it('reads decimal and hex spellings of the same commitment alike', () => {
+    expect(commitmentValue('255')).toBe('255');
+    expect(commitmentValue('0xff')).toBe('255');
+    expect(commitmentValue('0xFF')).toBe('255');
+    expect(commitmentValue('ff'.padStart(64, '0'))).toBe('255');
+  });
+
+  it('rejects values that are not field elements', () => {
+    expect(commitmentValue(FIELD_MODULUS)).toBeNull();
+    expect(commitmentValue('1'.repeat(79))).toBeNull();
+    expect(commitmentValue('ff')).toBeNull(); // Short hex without 0x is ambiguous
+    expect(commitmentValue('sbx_access_token')).toBeNull();
+    expect(commitmentValue('')).toBeNull();
+  });
+});
+
+describe('resolvePaymentReference', () => {
+  it('treats decimal commitments (as pay() returns them) as commitments', () => {
+    const commitment = (BigInt(FIELD_MODULUS) - 1n).toString();
+    expect(resolvePaymentReference(commitment)).toEqual({ commitment });
+    expect(resolvePaymentReference('0x1234')).toEqual({ commitment: '0x1234' });
+  });
+
+  it('treats anything else as an access token', () => {
+    expect(resolvePaymentReference('eyJhbGciOiJIUzI1NiJ9.payload.sig')).toEqual({ accessToken: 'eyJhbGciOiJIUzI1NiJ9.payload.sig' });
+  });
+
+  it('passes explicit references through', () => {
+    expect(resolvePaymentReference({ accessToken: '123' })).toEqual({ accessToken: '123' });
+    expect(resolvePaymentReference({ commitment: 'abc' })).toEqual({ commitment: 'abc' });
+  });
+});
+
+describe('pollUntilSettled', () => {
+  it('polls through transient errors and expired access until settled', async () => {
+    const results: Array<PaymentStatusResult | Error> = [
+      new NetworkError('offline'),
+      new ShadowPayError('Server error', 503),
+      { status: 'settling', authorized: false, reason: 'expired' },
+      { status: 'settled', authorized: true },
+    ];
+    const seen: string[] = [];
+
+    const final = await pollUntilSettled(async () => {
+      const next = results.shift()!;
+      if (next instanceof Error) {
+        throw next;
+      }
+      return next;
+    }, { interval: 1, onStatus: status => seen.push(status.status) });
+
+    expect(final.status).toBe('settled');
+    expect(seen).toEqual(['settling', 'settled']);
+  });
+
+  it('rejects when access is revoked before settlement started', async () => {
+    const check = async (): Promise<PaymentStatusResult> => ({ status: 'authorized', authorized: false, reason: 'deadline' });
+    await expect(pollUntilSettled(check, { interval: 1 })).rejects.toBeInstanceOf(SettlementRejectedError);
+  });
+
+  it('does not retry client errors', async () => {
+    let calls = 0;
+    const check = async (): Promise<PaymentStatusResult> => {
+      calls++;
+      throw new ShadowPayError('Forbidden', 403);
+    };
+    await expect(pollUntilSettled(check, { interval: 1 })).rejects.toThrow('Forbidden');
+    expect(calls).toBe(1);
+  });
+
+  it('gives up at the timeout', async () => {
+    const check = async (): Promise<PaymentStatusResult> => ({ status: 'settling', authorized: true });
+    await expect(pollUntilSettled(check, { interval: 5, timeout: 30 }))
+      .rejects.toMatchObject({ name: 'RequestAbortedError', timedOut: true });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Settlement status polling
+ * Watches a payment from any tab or process that holds its access token
+ */
+
+import { NetworkError, RateLimitedError, ShadowPayError } from '@shadowpay/core';
+import { createAbortScope, abortableSleep } from './abort';
+import type { AccessVerificationResponse } from './api-client';
+
+// BN254 scalar field; commitments are elements of it
+const BN254_FIELD_MODULUS = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/**
+ * Identifies a payment: an access token, or a commitment this client knows about
+ * A bare string that is a field element (decimal, as payments return it, or 0x/64-digit hex) is treated as a commitment
+ */
+export type PaymentReference = string | { accessToken: string } | { commitment: string };
+
+export interface PaymentStatusResult {
+  status: AccessVerificationResponse['settlement_status'];
+  authorized: boolean; // Whether the access token still grants access
+  reason?: string; // Backend explanation when not authorized
+  commitment?: string;
+}
+
+export interface WaitForSettlementOptions {
+  timeout?: number; // Give up after this many milliseconds (default: no timeout)
+  interval?: number; // Delay between status checks (default: 2000)
+  signal?: AbortSignal; // Stops waiting
+  onStatus?: (status: PaymentStatusResult) => void; // Called after every check
+}
+
+/**
+ * Normalize a payment reference
+ *
+ * @param reference - Access token, commitment, or an object naming one
+ * @returns Which kind of reference it is and its value
+ */
+export function resolvePaymentReference(
+  reference: PaymentReference
+): { accessToken: string } | { commitment: string } {
+  if (typeof reference !== 'string') {
+    return reference;
+  }
+  return commitmentValue(reference) === null
+    ? { accessToken: reference }
+    : { commitment: reference };
+}
+
+/**
+ * Canonical form of a payment commitment, so decimal and hex spellings of the same value compare equal
+ * Digits only are read as decimal; a 0x prefix or hex letters mean hex
+ *
+ * @param commitment - Commitment as returned by pay() (decimal) or the API
+ * @returns Decimal string, or null if it is not a field element
+ */
+export function commitmentValue(commitment: string): string | null {
+  let value: bigint;
+  if (/^\d{1,78}$/.test(commitment)) {
+    value = BigInt(commitment);
+  } else if (/^(0x[0-9a-fA-F]{1,64}|[0-9a-fA-F]{64})$/.test(commitment)) {
+    value = BigInt(commitment.startsWith('0x') ? commitment : `0x${commitment}`);
+  } else {
+    return null;
+  }
+  return value < BN254_FIELD_MODULUS ? value.toString() : null;
+}
+
+/**
+ * Poll a status source until the payment settles
+ * Network errors and 408/425/429/5xx responses are retried at the next interval until the timeout.
+ * An access token that expires while the proof is settling is not a rejection: polling continues
+ *
+ * @param check - Returns the current status
+ * @param options - Timeout, interval, abort signal and progress callback
+ * @returns Final (settled) status
+ * @throws SettlementRejectedError if access is revoked before the proof was submitted
+ * @throws RequestAbortedError on timeout or abort
+ */
+export async function pollUntilSettled(
+  check: (signal: AbortSignal) => Promise<PaymentStatusResult>,
+  options: WaitForSettlementOptions = {}
+): Promise<PaymentStatusResult> {
+  const scope = createAbortScope({ signal: options.signal, timeoutMs: options.timeout });
+  const interval = options.interval ?? 2000;
+
+  try {
+    for (;;) {
+      scope.throwIfAborted();
+      let status: PaymentStatusResult;
+      try {
+        status = await check(scope.signal);
+      } catch (error) {
+        scope.throwIfAborted();
+        if (!isTransientError(error)) {
+          throw error;
+        }
+        const retryAfter = error instanceof RateLimitedError ? error.retryAfterMs ?? 0 : 0;
+        await abortableSleep(Math.max(interval, retryAfter), scope);
+        continue;
+      }
+      options.onStatus?.(status);
+
+      if (status.status === 'settled') {
+        return status;
+      }
+      // authorized: false while settling means the access token expired, not that the payment failed
+      if (!status.authorized && status.status === 'authorized') {
+        throw new SettlementRejectedError(status);
+      }
+
+      await abortableSleep(interval, scope);
+    }
+  } finally {
+    scope.dispose();
+  }
+}
+
+/**
+ * Thrown when a payment loses authorization before its proof was submitted (e.g. the proof deadline passed)
+ */
+export class SettlementRejectedError extends Error {
+  constructor(public status: PaymentStatusResult) {
+    super(`Payment was not settled: ${status.reason || status.status}`);
+    this.name = 'SettlementRejectedError';
+  }
+}
+
+/**
+ * Helper: Whether a failed status check is worth repeating (no response, timeout, rate limit or server error)
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof RateLimitedError) {
+    return true;
+  }
+  return error instanceof ShadowPayError && (error.statusCode >= 500 || [408, 425].includes(error.statusCode));
+}
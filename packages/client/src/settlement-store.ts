@@ -0,0 +1,158 @@
+/**
+ * Persistence for pending background settlements
+ * Keeps everything needed to rebuild ProofInputs so settlement survives page reloads
+ */
+
+import { STORAGE_KEYS, getLogger, type Logger } from '@shadowpay/core';
+import type { AuthorizeResponse } from './api-client';
+import { readJsonFile, updateJsonFile } from './json-file';
+
+/**
+ * A payment that was authorized but not yet settled
+ * Contains the sender secret and salt: treat it like a private key
+ */
+export interface PendingSettlement {
+  paymentId: string;
+  auth: AuthorizeResponse;
+  senderSecret: string;
+  senderCommitment: string;
+  userWallet?: string; // Payer's wallet, to re-register with ShadowID (absent in settlements saved by older versions)
+  receiverCommitment: string;
+  paymentCommitment: string;
+  paymentNullifier: string;
+  salt: string;
+  lamports: number;
+  amount: number; // Human-readable amount
+  token: string;
+  merchantKey: string;
+  merchantWallet: string;
+  createdAt: number;
+}
+
+/**
+ * Storage for pending settlements, keyed by paymentId
+ */
+export interface SettlementStore {
+  /** All pending settlements */
+  list(): Promise<PendingSettlement[]>;
+  /** Add or replace a pending settlement */
+  save(settlement: PendingSettlement): Promise<void>;
+  /** Remove a settlement once it is settled or expired */
+  remove(paymentId: string): Promise<void>;
+}
+
+/**
+ * In-memory settlement store (does not survive reloads)
+ */
+export class MemorySettlementStore implements SettlementStore {
+  private settlements = new Map<string, PendingSettlement>();
+
+  async list(): Promise<PendingSettlement[]> {
+    return Array.from(this.settlements.values());
+  }
+
+  async save(settlement: PendingSettlement): Promise<void> {
+    this.settlements.set(settlement.paymentId, settlement);
+  }
+
+  async remove(paymentId: string): Promise<void> {
+    this.settlements.delete(paymentId);
+  }
+}
+
+/**
+ * localStorage settlement store (default in browsers)
+ */
+export class LocalStorageSettlementStore implements SettlementStore {
+  private storageKey: string;
+
+  constructor(storageKey: string = STORAGE_KEYS.PENDING_SETTLEMENTS) {
+    this.storageKey = storageKey;
+  }
+
+  async list(): Promise<PendingSettlement[]> {
+    const stored = window.localStorage.getItem(this.storageKey);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(stored) as PendingSettlement[];
+    } catch (error) {
+      getLogger().warn('Failed to parse pending settlements, ignoring them');
+      return [];
+    }
+  }
+
+  async save(settlement: PendingSettlement): Promise<void> {
+    const settlements = (await this.list()).filter(s => s.paymentId !== settlement.paymentId);
+    settlements.push(settlement);
+    window.localStorage.setItem(this.storageKey, JSON.stringify(settlements));
+  }
+
+  async remove(paymentId: string): Promise<void> {
+    const settlements = (await this.list()).filter(s => s.paymentId !== paymentId);
+    window.localStorage.setItem(this.storageKey, JSON.stringify(settlements));
+  }
+}
+
+/**
+ * File system settlement store (Node.js / Electron main process)
+ * Writes are serialized and atomic, so concurrent payments never drop each other's settlements
+ */
+export class FileSettlementStore implements SettlementStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async list(): Promise<PendingSettlement[]> {
+    return readJsonFile<PendingSettlement[]>(this.filePath, []);
+  }
+
+  async save(settlement: PendingSettlement): Promise<void> {
+    await updateJsonFile<PendingSettlement[]>(
+      this.filePath,
+      [],
+      settlements => [...settlements.filter(s => s.paymentId !== settlement.paymentId), settlement],
+      { mode: 0o600 }
+    );
+  }
+
+  async remove(paymentId: string): Promise<void> {
+    await updateJsonFile<PendingSettlement[]>(
+      this.filePath,
+      [],
+      settlements => settlements.filter(s => s.paymentId !== paymentId),
+      { mode: 0o600 }
+    );
+  }
+}
+
+/**
+ * Pick a settlement store for the current environment
+ * localStorage in browsers, in-memory everywhere else (with a warning: pending settlements
+ * are lost at exit, so resumePendingSettlements() has nothing to resume after a restart)
+ *
+ * @param logger - Where the in-memory warning goes (default: SDK-wide logger)
+ * @returns Default settlement store
+ */
+export function createDefaultSettlementStore(logger: Logger = getLogger()): SettlementStore {
+  if (typeof window !== 'undefined' && window.localStorage) {
+    return new LocalStorageSettlementStore();
+  }
+  logger.warn('Pending settlements are kept in memory and lost at exit; pass settlementStore (e.g. FileSettlementStore) to resume them after a restart');
+  return new MemorySettlementStore();
+}
+
+/**
+ * Check whether a pending settlement can still be proven
+ *
+ * @param settlement - Pending settlement
+ * @param now - Current time in milliseconds
+ * @returns True if the proof deadline has not passed
+ */
+export function isBeforeProofDeadline(settlement: PendingSettlement, now: number = Date.now()): boolean {
+  return settlement.auth.proof_deadline * 1000 > now;
+}
@@ -0,0 +1,277 @@
+/**
+ * ShadowID identity management
+ * Registers payer wallets in the ShadowID tree and caches their commitments so payments skip the round trip
+ */
+
+import { STORAGE_KEYS, getLogger, CommitmentNotRegisteredError } from '@shadowpay/core';
+import type { Logger } from '@shadowpay/core';
+import type { ShadowPayAPI } from './api-client';
+import type { AbortOptions } from './abort';
+import { getPublicKey, type WalletInterface } from './wallet-adapter';
+import { readJsonFile, updateJsonFile } from './json-file';
+
+/**
+ * A wallet's entry in the ShadowID tree, as cached locally
+ */
+export interface ShadowIDRegistration {
+  walletAddress: string;
+  commitment: string; // Sender commitment (hex, as returned by the API)
+  registeredAt: number; // When the registration was confirmed (ms)
+}
+
+export interface ShadowIDStatus extends ShadowIDRegistration {
+  root: string; // Current ShadowID tree root (decimal)
+}
+
+/**
+ * Local cache of ShadowID registrations, keyed by wallet address
+ */
+export interface ShadowIDCache {
+  /** Cached registration for a wallet, or null */
+  get(walletAddress: string): Promise<ShadowIDRegistration | null>;
+  /** Add or replace a registration */
+  save(registration: ShadowIDRegistration): Promise<void>;
+  /** Forget a wallet's registration */
+  remove(walletAddress: string): Promise<void>;
+}
+
+/**
+ * In-memory registration cache (does not survive reloads)
+ */
+export class MemoryShadowIDCache implements ShadowIDCache {
+  private registrations = new Map<string, ShadowIDRegistration>();
+
+  async get(walletAddress: string): Promise<ShadowIDRegistration | null> {
+    return this.registrations.get(walletAddress) ?? null;
+  }
+
+  async save(registration: ShadowIDRegistration): Promise<void> {
+    this.registrations.set(registration.walletAddress, registration);
+  }
+
+  async remove(walletAddress: string): Promise<void> {
+    this.registrations.delete(walletAddress);
+  }
+}
+
+/**
+ * localStorage registration cache (default in browsers)
+ */
+export class LocalStorageShadowIDCache implements ShadowIDCache {
+  private storageKey: string;
+
+  constructor(storageKey: string = STORAGE_KEYS.SHADOWID_REGISTRATIONS) {
+    this.storageKey = storageKey;
+  }
+
+  async get(walletAddress: string): Promise<ShadowIDRegistration | null> {
+    return this.read()[walletAddress] ?? null;
+  }
+
+  async save(registration: ShadowIDRegistration): Promise<void> {
+    const registrations = this.read();
+    registrations[registration.walletAddress] = registration;
+    window.localStorage.setItem(this.storageKey, JSON.stringify(registrations));
+  }
+
+  async remove(walletAddress: string): Promise<void> {
+    const registrations = this.read();
+    delete registrations[walletAddress];
+    window.localStorage.setItem(this.storageKey, JSON.stringify(registrations));
+  }
+
+  private read(): Record<string, ShadowIDRegistration> {
+    const stored = window.localStorage.getItem(this.storageKey);
+    if (!stored) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(stored) as Record<string, ShadowIDRegistration>;
+    } catch (error) {
+      getLogger().warn('Failed to parse cached ShadowID registrations, ignoring them');
+      return {};
+    }
+  }
+}
+
+/**
+ * File system registration cache (Node.js / Electron main process)
+ * Writes are serialized and atomic, so concurrent registrations never drop each other
+ */
+export class FileShadowIDCache implements ShadowIDCache {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(walletAddress: string): Promise<ShadowIDRegistration | null> {
+    const registrations = await readJsonFile<Record<string, ShadowIDRegistration>>(this.filePath, {});
+    return registrations[walletAddress] ?? null;
+  }
+
+  async save(registration: ShadowIDRegistration): Promise<void> {
+    await updateJsonFile<Record<string, ShadowIDRegistration>>(this.filePath, {}, registrations => ({
+      ...registrations,
+      [registration.walletAddress]: registration,
+    }));
+  }
+
+  async remove(walletAddress: string): Promise<void> {
+    await updateJsonFile<Record<string, ShadowIDRegistration>>(this.filePath, {}, registrations =>
+      Object.fromEntries(Object.entries(registrations).filter(([address]) => address !== walletAddress))
+    );
+  }
+}
+
+/**
+ * Pick a registration cache for the current environment
+ * localStorage in browsers, in-memory everywhere else
+ *
+ * @returns Default registration cache
+ */
+export function createDefaultShadowIDCache(): ShadowIDCache {
+  if (typeof window !== 'undefined' && window.localStorage) {
+    return new LocalStorageShadowIDCache();
+  }
+  return new MemoryShadowIDCache();
+}
+
+export interface ShadowIDOptions {
+  api: ShadowPayAPI;
+  cache?: ShadowIDCache; // Where commitments are cached (default: localStorage in browsers, memory elsewhere)
+  logger?: Logger;
+}
+
+/**
+ * ShadowID registration for payer wallets
+ * Available as `shadowpay.shadowId`; use it to onboard users before checkout
+ *
+ * @example
+ * ```typescript
+ * if (!(await shadowpay.shadowId.isRegistered(wallet))) {
+ *   await shadowpay.shadowId.register(wallet);
+ * }
+ * ```
+ */
+export class ShadowID {
+  private api: ShadowPayAPI;
+  private cache: ShadowIDCache;
+  private logger: Logger;
+
+  constructor(options: ShadowIDOptions) {
+    this.api = options.api;
+    this.cache = options.cache || createDefaultShadowIDCache();
+    this.logger = options.logger || getLogger();
+  }
+
+  /**
+   * Register a wallet with ShadowID and cache its commitment
+   * Always asks the API, so it also refreshes a stale cache entry
+   *
+   * @param wallet - Connected wallet or wallet address
+   * @param options - Abort signal and timeout
+   * @returns Registration
+   */
+  async register(wallet: WalletInterface | string, options: AbortOptions = {}): Promise<ShadowIDRegistration> {
+    const walletAddress = toWalletAddress(wallet);
+    const response = await this.api.registerShadowID(walletAddress, options);
+    if (response.registered) {
+      this.logger.info('Wallet registered in ShadowID tree');
+    }
+
+    const registration: ShadowIDRegistration = {
+      walletAddress,
+      commitment: response.commitment,
+      registeredAt: Date.now(),
+    };
+    await this.cache.save(registration).catch(error => {
+      this.logger.warn('Failed to cache ShadowID registration', error);
+    });
+    return registration;
+  }
+
+  /**
+   * Return the cached registration, registering only if there is none
+   * Used by pay(); does not contact the API when the wallet is cached
+   *
+   * @param wallet - Connected wallet or wallet address
+   * @param options - Abort signal and timeout
+   * @returns Registration
+   */
+  async ensureRegistered(wallet: WalletInterface | string, options: AbortOptions = {}): Promise<ShadowIDRegistration> {
+    const cached = await this.getCachedRegistration(wallet);
+    return cached ?? this.register(wallet, options);
+  }
+
+  /**
+   * Look up a wallet's registration and the current tree root
+   * Checks the cached commitment against the tree; a commitment the tree no longer has is dropped from the cache
+   * Wallets never registered through this cache return null (registration status cannot be read without registering)
+   *
+   * @param wallet - Connected wallet or wallet address
+   * @param options - Abort signal and timeout
+   * @returns Commitment and root, or null if not registered
+   */
+  async getRegistration(wallet: WalletInterface | string, options: AbortOptions = {}): Promise<ShadowIDStatus | null> {
+    const cached = await this.getCachedRegistration(wallet);
+    if (!cached) {
+      return null;
+    }
+
+    try {
+      const proof = await this.api.getMerkleProof(cached.commitment, options);
+      return { ...cached, root: proof.root };
+    } catch (error) {
+      if (error instanceof CommitmentNotRegisteredError) {
+        await this.cache.remove(cached.walletAddress);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a wallet is in the ShadowID tree (see getRegistration())
+   *
+   * @param wallet - Connected wallet or wallet address
+   * @param options - Abort signal and timeout
+   * @returns True if registered
+   */
+  async isRegistered(wallet: WalletInterface | string, options: AbortOptions = {}): Promise<boolean> {
+    return (await this.getRegistration(wallet, options)) !== null;
+  }
+
+  /**
+   * Read the local cache without contacting the API
+   *
+   * @param wallet - Connected wallet or wallet address
+   * @returns Cached registration, or null
+   */
+  async getCachedRegistration(wallet: WalletInterface | string): Promise<ShadowIDRegistration | null> {
+    const walletAddress = toWalletAddress(wallet);
+    try {
+      return await this.cache.get(walletAddress);
+    } catch (error) {
+      this.logger.warn('Failed to read cached ShadowID registration', error);
+      return null;
+    }
+  }
+
+  /**
+   * Drop a wallet from the local cache (the ShadowID tree is not changed)
+   *
+   * @param wallet - Connected wallet or wallet address
+   */
+  async forget(wallet: WalletInterface | string): Promise<void> {
+    await this.cache.remove(toWalletAddress(wallet));
+  }
+}
+
+/**
+ * Helper: Wallet address from a wallet or an address
+ */
+function toWalletAddress(wallet: WalletInterface | string): string {
+  return typeof wallet === 'string' ? wallet : getPublicKey(wallet);
+}
@@ -2,12 +2,37 @@
  * Client-specific types for ShadowPay SDK
  */
 
+import type { Logger } from '@shadowpay/core';
 import type { WalletInterface } from './wallet-adapter';
+import type { KeyStore } from './key-store';
+import type { PaymentEvent } from './payment-events';
+import type { SettlementStore } from './settlement-store';
+import type { ProverOptions } from './prover';
+import type { ArtifactCache, CircuitArtifactSources } from './circuit-artifacts';
+import type { RetryPolicy } from './api-client';
+import type { PaymentHistoryStore } from './payment-history';
+import type { ShadowIDCache } from './shadowid';
+import type { AbortOptions } from './abort';
 
 export interface ShadowPayOptions {
   merchantKey: string; // ✅ Merchant's API key (e.g., 2hTKeADLwNZPeU5MeFcNKV4ttfWtpBUSEMiRVf4jRyjC)
   merchantWallet: string; // ✅ Merchant's wallet address (e.g., BdDcNpsjGKdabkX1xo6XhYhUsJtADYnUT5hPmW5AoLFi)
   apiUrl?: string; // ShadowPay API base URL (defaults to https://shadow.radr.fun)
+  keyStore?: KeyStore; // Where ElGamal keys are stored (default: localStorage in browsers; required elsewhere)
+  settlementStore?: SettlementStore; // Where pending settlements are persisted (default: localStorage in browsers; memory elsewhere, lost at exit)
+  historyStore?: PaymentHistoryStore; // Where payment history is kept (default: localStorage in browsers, memory elsewhere with a warning)
+  shadowIdCache?: ShadowIDCache; // Where ShadowID commitments are cached per wallet (default: localStorage in browsers, memory elsewhere)
+  autoResumeSettlements?: boolean; // Call resumePendingSettlements() on construction (default: false)
+  prover?: Omit<ProverOptions, 'signal'>; // Where proofs run (default: worker when available)
+  circuit?: CircuitArtifactSources; // Custom URLs, file:// paths or bytes for the circuit (default: hosted artifacts)
+  artifactCache?: ArtifactCache; // Where circuit artifacts are cached (default: Cache API / IndexedDB / disk)
+  prefetchCircuit?: boolean; // Download and cache the circuit on construction (default: false)
+  logger?: Logger; // SDK diagnostics (default: silent, see setLogger())
+  retry?: RetryPolicy | false; // Retry policy for API calls (default: 3 retries with backoff)
+  fetch?: typeof fetch; // fetch used for ShadowPay API calls, circuit downloads and shadowpay.fetch(), e.g. a sandbox's (default: global fetch)
+  preflight?: boolean; // Verify merchantWallet against the API key before paying; runs once per client and is cached (default: true)
+  isTrustedRoot?: (root: string, options: AbortOptions) => boolean | Promise<boolean>; // Second source for ShadowID roots (decimal); false rejects the proof before proving
+  keyDerivation?: 'random' | 'wallet'; // 'wallet' derives ElGamal keys from a wallet signature (default: 'random')
 }
 
 export interface Settlement {
@@ -20,14 +45,28 @@ export interface PaymentOptions {
   token?: string; // Token symbol (default: 'SOL')
   wallet: WalletInterface; // Solana wallet adapter
   onProofComplete?: (settlement: Settlement) => void; // Callback when proof completes
+  onEvent?: (event: PaymentEvent) => void; // Lifecycle events for this payment
+  signal?: AbortSignal; // Cancels the payment, including background proof generation
+  detachSettlement?: boolean; // signal only cancels the payment until it is authorized; the background proof keeps running (default: false)
+  timeoutMs?: number; // Gives up if access isn't granted within this time
 }
 
+export type PaymentStatus = 'authorized' | 'settling' | 'settled' | 'failed';
+
 export interface PaymentResult {
+  paymentId: string; // Identifies this payment in lifecycle events
   accessToken: string; // Access token for instant access
   commitment: string; // Payment commitment
-  status: 'authorized' | 'settling' | 'settled'; // Payment status
+  status: PaymentStatus; // Payment status
   proofPending: boolean; // Is proof still generating?
   settlement?: Settlement; // Settlement info (when complete)
+  error?: Error; // Background failure (when status is 'failed')
+}
+
+export interface ResumeSummary {
+  settled: number; // Settlements completed
+  failed: number; // Settlements that failed again (kept until their deadline)
+  expired: number; // Settlements dropped because the proof deadline passed
 }
 
 export interface StoredKeys {
@@ -37,14 +76,34 @@ export interface StoredKeys {
     y: string;
   };
   createdAt: number;
+  derivedFrom?: string; // Wallet address, for keys derived from a wallet signature
+  retiredKeys?: RetiredKeys[]; // Previous keys, kept to decrypt older amounts
+}
+
+export interface RetiredKeys {
+  privateKey: string;
+  publicKey: {
+    x: string;
+    y: string;
+  };
+  createdAt: number;
+  retiredAt: number;
 }
 
 export interface PaymentHistory {
-  timestamp: number;
-  amount: number;
+  paymentId: string;
+  timestamp: number; // When the payment was authorized (ms)
+  updatedAt: number; // Last status change (ms)
+  status: PaymentStatus;
+  amount: number; // Human-readable amount
   token: string;
-  recipient: string;
-  signature: string;
+  lamports: number; // Amount in the token's smallest unit
+  recipient: string; // Merchant's receiving wallet
+  merchantKey: string; // Merchant's API key
+  commitment: string; // Payment commitment
   nullifier: string;
+  signature?: string; // Settlement transaction (when settled)
+  settlementTime?: number;
+  error?: string; // Failure message (when failed)
 }
 
@@ -3,7 +3,10 @@ declare module 'snarkjs' {
     fullProve: (
       inputs: any,
       wasmPath: string,
-      zkeyPath: string
+      zkeyPath: string,
+      logger?: any,
+      wtnsCalcOptions?: any,
+      proverOptions?: { singleThread?: boolean }
     ) => Promise<{
       proof: any;
       publicSignals: any[];
@@ -15,9 +18,9 @@ declare module 'snarkjs' {
     ) => Promise<boolean>;
   };
   
-  export function zKey: any;
-  export function r1cs: any;
-  export function wtns: any;
-  export function powersOfTau: any;
+  export const zKey: any;
+  export const r1cs: any;
+  export const wtns: any;
+  export const powersOfTau: any;
 }
 
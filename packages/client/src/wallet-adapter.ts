@@ -1,21 +1,28 @@
 /**
  * Wallet adapter integration for Solana wallets
- * Auto-detects and works with Phantom, Solflare, Backpack, and other wallets
+ * Auto-detects Wallet Standard wallets and injected providers (Phantom, Solflare, Backpack, ...)
  */
 
 // import type { WalletAdapter } from '@solana/wallet-adapter-base';
-import { PublicKey, Transaction } from '@solana/web3.js';
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { getSolanaStandardWallets, StandardWalletAdapter } from './wallet-standard';
+
+export type SignableTransaction = Transaction | VersionedTransaction;
 
 export interface WalletInterface {
   publicKey: PublicKey | null;
-  signTransaction?: <T extends Transaction>(transaction: T) => Promise<T>;
-  signAllTransactions?: <T extends Transaction>(transactions: T[]) => Promise<T[]>;
+  signTransaction?: <T extends SignableTransaction>(transaction: T) => Promise<T>;
+  signAllTransactions?: <T extends SignableTransaction>(transactions: T[]) => Promise<T[]>;
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>; // Needed for wallet-derived ElGamal keys
+  onAccountChange?: (listener: (publicKey: PublicKey | null) => void) => () => void; // Returns unsubscribe
+  name?: string; // Wallet name, when known
   connected: boolean;
 }
 
 /**
  * Detect the current Solana wallet
- * Works with wallet adapter or window.solana
+ * Order: the given wallet, a connected injected provider, a connected Wallet Standard
+ * wallet, then the first disconnected one (call connect() on a StandardWalletAdapter)
  * 
  * @param wallet - Wallet adapter instance (optional)
  * @returns Wallet interface
@@ -26,18 +33,87 @@ export function detectWallet(wallet?: WalletInterface): WalletInterface | null {
     return wallet;
   }
   
-  // Check for window.solana (Phantom, etc.)
-  if (typeof window !== 'undefined' && (window as any).solana) {
-    const solana = (window as any).solana;
-    return {
-      publicKey: solana.publicKey ? new PublicKey(solana.publicKey.toString()) : null,
-      signTransaction: solana.signTransaction?.bind(solana),
-      signAllTransactions: solana.signAllTransactions?.bind(solana),
-      connected: solana.isConnected || false,
-    };
+  const injected = detectInjectedWallet();
+  if (injected?.publicKey) {
+    return injected;
+  }
+  
+  // Wallets that no longer inject window.solana register through the Wallet Standard
+  const standard = getSolanaStandardWallets();
+  const connected = standard.find(w => w.accounts.length > 0);
+  if (connected) {
+    return new StandardWalletAdapter(connected);
+  }
+  
+  return injected || (standard[0] ? new StandardWalletAdapter(standard[0]) : null);
+}
+
+/**
+ * Detect a wallet and ask it to connect if it isn't already
+ * 
+ * @param wallet - Wallet adapter instance (optional)
+ * @returns Connected wallet interface
+ * @throws WalletError if no wallet is installed or the user rejects the connection
+ */
+export async function connectWallet(wallet?: WalletInterface): Promise<WalletInterface> {
+  const detected = detectWallet(wallet);
+  if (!detected) {
+    throw new WalletError('No Solana wallet found. Please install a wallet such as Phantom.');
+  }
+  if (isWalletConnected(detected)) {
+    return detected;
+  }
+  
+  if (detected instanceof StandardWalletAdapter) {
+    await detected.connect();
+    return detected;
+  }
+  
+  const solana = typeof window !== 'undefined' ? (window as any).solana : undefined;
+  if (!solana?.connect) {
+    throw new WalletError('Wallet not connected. Please connect your wallet first.');
   }
   
-  return null;
+  try {
+    await solana.connect();
+  } catch (error) {
+    throw new WalletError(
+      `Failed to connect wallet: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+  return detectInjectedWallet()!;
+}
+
+/**
+ * Helper: Wrap window.solana (Phantom, etc.)
+ */
+function detectInjectedWallet(): WalletInterface | null {
+  if (typeof window === 'undefined' || !(window as any).solana) {
+    return null;
+  }
+  
+  const solana = (window as any).solana;
+  return {
+    publicKey: solana.publicKey ? new PublicKey(solana.publicKey.toString()) : null,
+    signTransaction: solana.signTransaction?.bind(solana),
+    signAllTransactions: solana.signAllTransactions?.bind(solana),
+    signMessage: solana.signMessage
+      ? async (message: Uint8Array) => {
+        // Injected providers resolve to { signature, publicKey }
+        const result = await solana.signMessage(message, 'utf8');
+        return result instanceof Uint8Array ? result : result.signature;
+      }
+      : undefined,
+    onAccountChange: solana.on
+      ? listener => {
+        const handler = (publicKey: unknown) => listener(publicKey ? new PublicKey(String(publicKey)) : null);
+        solana.on('accountChanged', handler);
+        return () => (solana.off || solana.removeListener)?.call(solana, 'accountChanged', handler);
+      }
+      : undefined,
+    name: getWalletName(),
+    connected: solana.isConnected || false,
+  };
 }
 
 /**
@@ -60,10 +136,10 @@ export function getPublicKey(wallet: WalletInterface): string {
  * @param transaction - Transaction to sign
  * @returns Signed transaction
  */
-export async function signTransaction(
+export async function signTransaction<T extends SignableTransaction>(
   wallet: WalletInterface,
-  transaction: Transaction
-): Promise<Transaction> {
+  transaction: T
+): Promise<T> {
   if (!wallet.signTransaction) {
     throw new WalletError('Wallet does not support transaction signing');
   }
@@ -78,6 +154,44 @@ export async function signTransaction(
   }
 }
 
+/**
+ * Sign an arbitrary message with the wallet
+ * 
+ * @param wallet - Wallet interface
+ * @param message - Message bytes
+ * @returns Ed25519 signature (64 bytes)
+ */
+export async function signMessage(
+  wallet: WalletInterface,
+  message: Uint8Array
+): Promise<Uint8Array> {
+  if (!wallet.signMessage) {
+    throw new WalletError('Wallet does not support message signing');
+  }
+  
+  try {
+    return await wallet.signMessage(message);
+  } catch (error) {
+    throw new WalletError(
+      `Failed to sign message: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Subscribe to account switches and disconnects
+ * 
+ * @param wallet - Wallet interface
+ * @param listener - Called with the new public key (null when disconnected)
+ * @returns Function that removes the listener (no-op if the wallet has no account events)
+ */
+export function onAccountChange(
+  wallet: WalletInterface,
+  listener: (publicKey: PublicKey | null) => void
+): () => void {
+  return wallet.onAccountChange?.(listener) ?? (() => undefined);
+}
+
 /**
  * Check if a wallet is connected
  * 
@@ -95,6 +209,10 @@ export function isWalletConnected(wallet: WalletInterface | null): boolean {
  * @returns Wallet name or 'Unknown'
  */
 export function getWalletName(wallet?: WalletInterface): string {
+  if (wallet?.name) {
+    return wallet.name;
+  }
+  
   if (typeof window === 'undefined') {
     return 'Unknown';
   }
@@ -0,0 +1,247 @@
+/**
+ * Wallet Standard discovery and adapter
+ * Finds wallets that register through the Wallet Standard instead of injecting window.solana
+ */
+
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { WalletError, type WalletInterface, type SignableTransaction } from './wallet-adapter';
+
+/**
+ * Wallet as registered through the Wallet Standard (the subset ShadowPay uses)
+ */
+export interface StandardWallet {
+  name: string;
+  icon: string; // Data URI
+  version: string;
+  chains: readonly string[]; // e.g. 'solana:mainnet'
+  accounts: readonly StandardWalletAccount[]; // Authorized accounts (empty until connected)
+  features: Readonly<Record<string, any>>; // e.g. 'standard:connect', 'solana:signTransaction'
+}
+
+export interface StandardWalletAccount {
+  address: string; // Base58 address
+  publicKey: Uint8Array;
+  chains: readonly string[];
+  features: readonly string[];
+}
+
+interface WalletRegistry {
+  register(...wallets: StandardWallet[]): () => void;
+}
+
+const REGISTER_EVENT = 'wallet-standard:register-wallet';
+const APP_READY_EVENT = 'wallet-standard:app-ready';
+
+const registered = new Set<StandardWallet>();
+const registerListeners = new Set<(wallet: StandardWallet) => void>();
+let listening = false;
+
+/**
+ * Get every wallet registered through the Wallet Standard
+ * The first call starts listening for registrations (including wallets that load later)
+ *
+ * @returns Registered wallets (empty outside browsers)
+ */
+export function getStandardWallets(): StandardWallet[] {
+  startListening();
+  return Array.from(registered);
+}
+
+/**
+ * Get registered wallets that can sign Solana transactions
+ *
+ * @returns Solana-capable wallets
+ */
+export function getSolanaStandardWallets(): StandardWallet[] {
+  return getStandardWallets().filter(isSolanaStandardWallet);
+}
+
+/**
+ * Listen for wallets that register after the page has loaded
+ *
+ * @param listener - Called with each newly registered wallet
+ * @returns Function that removes the listener
+ */
+export function onStandardWalletRegistered(listener: (wallet: StandardWallet) => void): () => void {
+  startListening();
+  registerListeners.add(listener);
+  return () => {
+    registerListeners.delete(listener);
+  };
+}
+
+/**
+ * Check whether a Wallet Standard wallet supports Solana
+ *
+ * @param wallet - Registered wallet
+ * @returns True if it supports a Solana chain, connecting and transaction signing
+ */
+export function isSolanaStandardWallet(wallet: StandardWallet): boolean {
+  return wallet.chains.some(chain => chain.startsWith('solana:'))
+    && 'standard:connect' in wallet.features
+    && 'solana:signTransaction' in wallet.features;
+}
+
+/**
+ * WalletInterface backed by a Wallet Standard wallet
+ *
+ * @example
+ * ```typescript
+ * const [phantom] = getSolanaStandardWallets();
+ * const wallet = new StandardWalletAdapter(phantom);
+ * await wallet.connect();
+ * await shadowpay.pay({ amount: 0.001, wallet });
+ * ```
+ */
+export class StandardWalletAdapter implements WalletInterface {
+  readonly name: string;
+  readonly standardWallet: StandardWallet;
+  private chain: string;
+
+  /**
+   * @param wallet - Registered wallet
+   * @param chain - Chain used for signing (default: 'solana:mainnet')
+   */
+  constructor(wallet: StandardWallet, chain: string = 'solana:mainnet') {
+    this.standardWallet = wallet;
+    this.name = wallet.name;
+    this.chain = chain;
+  }
+
+  get account(): StandardWalletAccount | null {
+    return this.standardWallet.accounts[0] ?? null;
+  }
+
+  get publicKey(): PublicKey | null {
+    const account = this.account;
+    return account ? new PublicKey(account.publicKey) : null;
+  }
+
+  get connected(): boolean {
+    return this.account !== null;
+  }
+
+  /**
+   * Ask the wallet to authorize this site
+   *
+   * @param options - silent: only reconnect if already authorized (no prompt)
+   */
+  async connect(options: { silent?: boolean } = {}): Promise<void> {
+    try {
+      await this.feature('standard:connect').connect(options);
+    } catch (error) {
+      throw new WalletError(
+        `Failed to connect ${this.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await this.standardWallet.features['standard:disconnect']?.disconnect();
+  }
+
+  async signTransaction<T extends SignableTransaction>(transaction: T): Promise<T> {
+    const [signed] = await this.signAllTransactions([transaction]);
+    return signed;
+  }
+
+  async signAllTransactions<T extends SignableTransaction>(transactions: T[]): Promise<T[]> {
+    const account = this.requireAccount();
+    const outputs: Array<{ signedTransaction: Uint8Array }> = await this.feature('solana:signTransaction')
+      .signTransaction(...transactions.map(transaction => ({
+        account,
+        chain: this.chain,
+        transaction: serializeTransaction(transaction),
+      })));
+
+    return outputs.map(({ signedTransaction }, i) => (
+      transactions[i] instanceof VersionedTransaction
+        ? VersionedTransaction.deserialize(signedTransaction)
+        : Transaction.from(signedTransaction)
+    ) as T);
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const account = this.requireAccount();
+    const [output] = await this.feature('solana:signMessage').signMessage({ account, message });
+    return output.signature;
+  }
+
+  onAccountChange(listener: (publicKey: PublicKey | null) => void): () => void {
+    const events = this.standardWallet.features['standard:events'];
+    if (!events) {
+      return () => undefined;
+    }
+    return events.on('change', (properties: { accounts?: readonly StandardWalletAccount[] }) => {
+      if (properties.accounts) {
+        listener(this.publicKey);
+      }
+    });
+  }
+
+  private feature(name: string): any {
+    const feature = this.standardWallet.features[name];
+    if (!feature) {
+      throw new WalletError(`${this.name} does not support ${name}`);
+    }
+    return feature;
+  }
+
+  private requireAccount(): StandardWalletAccount {
+    const account = this.account;
+    if (!account) {
+      throw new WalletError(`${this.name} is not connected`);
+    }
+    return account;
+  }
+}
+
+/**
+ * Helper: Serialize a legacy or versioned transaction without requiring all signatures
+ */
+function serializeTransaction(transaction: SignableTransaction): Uint8Array {
+  if (transaction instanceof VersionedTransaction) {
+    return transaction.serialize();
+  }
+  return transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+}
+
+/**
+ * Helper: Implement the app side of the Wallet Standard registration protocol
+ * Handles both the event protocol and the legacy navigator.wallets array
+ */
+function startListening(): void {
+  if (listening || typeof window === 'undefined') {
+    return;
+  }
+  listening = true;
+
+  const registry: WalletRegistry = {
+    register(...wallets) {
+      for (const wallet of wallets) {
+        if (registered.has(wallet)) continue;
+        registered.add(wallet);
+        registerListeners.forEach(listener => listener(wallet));
+      }
+      return () => wallets.forEach(wallet => registered.delete(wallet));
+    },
+  };
+
+  window.addEventListener(REGISTER_EVENT, ((event: CustomEvent<(registry: WalletRegistry) => void>) => {
+    event.detail(registry);
+  }) as EventListener);
+  window.dispatchEvent(new CustomEvent(APP_READY_EVENT, { detail: registry }));
+
+  // Legacy: wallets pushed registration callbacks onto navigator.wallets
+  const nav = window.navigator as any;
+  if (nav.wallets !== undefined && !Array.isArray(nav.wallets)) {
+    return; // Another app-side registry already handles it
+  }
+  const legacy: Array<(api: WalletRegistry) => void> = nav.wallets || [];
+  try {
+    nav.wallets = { push: (...callbacks: Array<(api: WalletRegistry) => void>) => callbacks.forEach(cb => cb(registry)) };
+  } catch (error) {
+    // navigator.wallets is read-only in some environments
+  }
+  legacy.forEach(callback => callback(registry));
+}
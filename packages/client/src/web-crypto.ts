@@ -0,0 +1,31 @@
+/**
+ * WebCrypto access that works in browsers and Node.js
+ */
+
+/**
+ * Get WebCrypto (global in browsers and Node 19+, module export in Node 18)
+ *
+ * @returns WebCrypto implementation
+ */
+export async function getWebCrypto(): Promise<Crypto> {
+  if (typeof globalThis.crypto !== 'undefined' && globalThis.crypto.subtle) {
+    return globalThis.crypto;
+  }
+
+  const nodeCrypto = await import('crypto');
+  return nodeCrypto.webcrypto as unknown as Crypto;
+}
+
+/**
+ * Compute the SHA-256 digest of some bytes
+ *
+ * @param data - Bytes to hash
+ * @returns Lowercase hex digest
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const crypto = await getWebCrypto();
+  const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
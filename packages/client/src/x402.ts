@@ -0,0 +1,133 @@
+/**
+ * x402 client helpers
+ * Parses 402 Payment Required challenges and builds the X-PAYMENT header for the retried request
+ */
+
+import { TOKENS, X402_VERSION, PAYMENT_SCHEME } from '@shadowpay/core';
+import type { X402Response, X402PaymentRequirement, X402PaymentHeader } from '@shadowpay/core';
+import type { WalletInterface } from './wallet-adapter';
+import type { PaymentEvent } from './payment-events';
+import type { PaymentResult } from './types';
+
+export interface X402FetchOptions {
+  maxAmount?: number | Partial<Record<string, number>>; // Budget per request, in token units (nothing is paid without one)
+  tokens?: string[]; // Tokens the caller is willing to pay with (default: SOL, USDC, USDT)
+  networks?: string[]; // Accepted networks (default: ['solana-mainnet'])
+  wallet?: WalletInterface; // Paying wallet
+  onPayment?: (payment: PaymentResult, requirement: X402PaymentRequirement) => void; // Called after paying
+  onEvent?: (event: PaymentEvent) => void; // Lifecycle events for the payment
+}
+
+/**
+ * A payment requirement the client can pay, with its amount resolved
+ */
+export interface SelectedRequirement {
+  requirement: X402PaymentRequirement;
+  amount: number; // Human-readable amount
+  token: string; // Token symbol
+}
+
+/**
+ * Read an x402 challenge from a 402 response
+ *
+ * @param response - Response with status 402 (the body is read from a clone)
+ * @returns Parsed challenge, or null if the body is not an x402 response
+ */
+export async function parseX402Response(response: Response): Promise<X402Response | null> {
+  try {
+    const body = await response.clone().json() as Partial<X402Response>;
+    if (typeof body.x402Version !== 'number' || !Array.isArray(body.accepts)) {
+      return null;
+    }
+    return body as X402Response;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Pick the first requirement this client can pay within budget
+ *
+ * @param accepts - Requirements offered by the server
+ * @param merchantKey - Merchant API key the client pays to (must equal payTo)
+ * @param options - Budget, tokens and networks
+ * @returns Selected requirement
+ * @throws X402PaymentError listing why each requirement was rejected
+ */
+export function selectPaymentRequirement(
+  accepts: X402PaymentRequirement[],
+  merchantKey: string,
+  options: X402FetchOptions = {}
+): SelectedRequirement {
+  const tokens = (options.tokens || Object.keys(TOKENS)).map(t => t.toUpperCase());
+  const networks = options.networks || ['solana-mainnet'];
+  const reasons: string[] = [];
+
+  for (const requirement of accepts) {
+    const token = String(requirement.extra?.token || 'SOL').toUpperCase();
+    const amount = Number(requirement.maxAmountRequired);
+    const budget = typeof options.maxAmount === 'number'
+      ? options.maxAmount
+      : options.maxAmount?.[token];
+
+    if (requirement.scheme !== PAYMENT_SCHEME) {
+      reasons.push(`unsupported scheme ${requirement.scheme}`);
+    } else if (!networks.includes(requirement.network)) {
+      reasons.push(`unsupported network ${requirement.network}`);
+    } else if (!tokens.includes(token) || !TOKENS[token]) {
+      reasons.push(`unsupported token ${token}`);
+    } else if (requirement.payTo !== merchantKey) {
+      reasons.push(`payTo ${requirement.payTo} is not this client's merchant`);
+    } else if (!Number.isFinite(amount) || amount <= 0) {
+      reasons.push(`invalid amount ${requirement.maxAmountRequired}`);
+    } else if (budget === undefined) {
+      reasons.push(`no budget set for ${token} (pass maxAmount)`);
+    } else if (amount > budget) {
+      reasons.push(`${amount} ${token} exceeds budget of ${budget} ${token}`);
+    } else {
+      return { requirement, amount, token };
+    }
+  }
+
+  throw new X402PaymentError(
+    `No acceptable payment requirement: ${reasons.join('; ') || 'none offered'}`,
+    accepts
+  );
+}
+
+/**
+ * Build the base64 X-PAYMENT header for a completed authorization
+ *
+ * @param requirement - Requirement that was paid
+ * @param payment - Payment result from pay()
+ * @returns Header value
+ */
+export function encodePaymentHeader(
+  requirement: X402PaymentRequirement,
+  payment: PaymentResult
+): string {
+  const header: X402PaymentHeader = {
+    x402Version: X402_VERSION,
+    scheme: requirement.scheme,
+    network: requirement.network,
+    payload: {
+      accessToken: payment.accessToken,
+      commitment: payment.commitment,
+    },
+  };
+
+  const json = JSON.stringify(header);
+  return typeof btoa === 'function'
+    ? btoa(json)
+    : Buffer.from(json).toString('base64');
+}
+
+/**
+ * Thrown when a 402 response can't be paid automatically
+ */
+export class X402PaymentError extends Error {
+  constructor(message: string, public accepts: X402PaymentRequirement[] = []) {
+    super(message);
+    this.name = 'X402PaymentError';
+  }
+}
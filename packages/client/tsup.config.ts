@@ -1,14 +1,46 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm'],
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  treeshake: true,
-  minify: false,
-  external: ['@shadowpay/core', '@solana/web3.js', '@solana/wallet-adapter-base', 'snarkjs'],
-});
-
+export default defineConfig([
+  {
+    entry: ['src/index.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    treeshake: true,
+    minify: false,
+    shims: true, // import.meta.url in the CJS build, used to locate the proof workers
+    external: ['@shadowpay/core', '@solana/web3.js', '@solana/wallet-adapter-base', 'snarkjs', 'web-worker'],
+  },
+  {
+    // Self-contained Web Worker script (snarkjs bundled in)
+    entry: { 'proof-worker': 'src/proof-worker.ts' },
+    format: ['esm'],
+    platform: 'browser',
+    sourcemap: true,
+    treeshake: true,
+    minify: false,
+    noExternal: ['snarkjs'],
+  },
+  {
+    // Worker script for Node, started through the web-worker polyfill (snarkjs loaded from node_modules)
+    entry: { 'proof-worker-node': 'src/proof-worker.ts' },
+    format: ['cjs'],
+    platform: 'node',
+    sourcemap: true,
+    treeshake: true,
+    minify: false,
+    external: ['snarkjs'],
+  },
+  {
+    // <shadowpay-paywall> custom element (registers itself on import)
+    entry: { paywall: 'src/paywall.ts' },
+    format: ['esm'],
+    dts: true,
+    sourcemap: true,
+    treeshake: true,
+    minify: false,
+    external: ['@shadowpay/core', '@solana/web3.js', '@solana/wallet-adapter-base', 'snarkjs', 'web-worker'],
+  },
+]);
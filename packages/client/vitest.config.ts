@@ -4,6 +4,8 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'jsdom',
+    // web-worker (the Node prover's Worker polyfill) treats any worker thread as a worker it started
+    pool: 'forks',
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],
@@ -9,8 +9,12 @@ export const ENDPOINTS = {
   settle: '/shadowpay/settle',
   supported: '/shadowpay/supported',
   newKey: '/shadowpay/v1/keys/new',
+  keyInfo: '/shadowpay/v1/keys/info', // Unconfirmed: not in the published API reference; served by ShadowPaySandbox
 } as const;
 
+// ShadowID tree shape consumed by the circuit (merklePath / pathIndices)
+export const SHADOWID_TREE_DEPTH = 20;
+
 export const CIRCUIT_URLS = {
   wasm: 'https://shadow.radr.fun/shadowpay/circuit-elgamal/shadowpay-elgamal_js/shadowpay-elgamal.wasm',
   zkey: 'https://shadow.radr.fun/shadowpay/circuit-elgamal/shadowpay-elgamal_final.zkey',
@@ -28,6 +32,16 @@ export const CIRCUIT_VERSIONS = {
   // basic: { wasm: '...', zkey: '...', vkey: '...' },
 } as const;
 
+export type CircuitVersion = keyof typeof CIRCUIT_VERSIONS;
+
+export type CircuitArtifactName = 'wasm' | 'zkey' | 'vkey';
+
+// Pinned SHA-256 digests (hex) of each circuit version's artifacts
+// Written by scripts/pin-circuit.ts when a release is published; empty until then (artifacts are used unverified, with a warning)
+export const CIRCUIT_INTEGRITY: Record<CircuitVersion, Partial<Record<CircuitArtifactName, string>>> = {
+  elgamal: {},
+};
+
 export const NETWORK = {
   MAINNET: 'mainnet-beta',
   DEVNET: 'devnet',
@@ -36,9 +50,19 @@ export const NETWORK = {
 export const STORAGE_KEYS = {
   ELGAMAL_KEYS: 'shadowpay_keys',
   PAYMENT_HISTORY: 'shadowpay_payments',
+  PENDING_SETTLEMENTS: 'shadowpay_pending_settlements',
+  SHADOWID_REGISTRATIONS: 'shadowpay_shadowid',
 } as const;
 
 export const X402_VERSION = 1;
 
 export const PAYMENT_SCHEME = 'zkproof' as const;
 
+
+// Message a wallet signs to derive its ElGamal keypair (see deriveElGamalKeypair)
+// Changing it changes every derived key, so bump the version suffix instead of editing it
+export const KEY_DERIVATION_MESSAGE =
+  'ShadowPay encryption key v1\n\n' +
+  'Sign to derive your ShadowPay encryption key. ' +
+  'This is not a transaction and costs nothing. ' +
+  'Only sign this on sites you trust: the signature can decrypt your payment amounts.';
@@ -4,6 +4,8 @@
  */
 
 import { bn254 } from '@noble/curves/bn254';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha256';
 import { randomBytes } from '@noble/hashes/utils';
 import type { ElGamalKeypair, EncryptedAmount } from '../types';
 
@@ -31,6 +33,36 @@ export function generateElGamalKeypair(): ElGamalKeypair {
   };
 }
 
+/**
+ * Derive an ElGamal keypair deterministically from a wallet signature
+ * The same wallet signing KEY_DERIVATION_MESSAGE always yields the same keypair
+ * (Ed25519 signatures are deterministic), so keys can be recovered on any device
+ * 
+ * @param signature - Wallet signature of KEY_DERIVATION_MESSAGE (64 bytes)
+ * @returns ElGamal keypair
+ */
+export function deriveElGamalKeypair(signature: Uint8Array): ElGamalKeypair {
+  if (signature.length < 64) {
+    throw new Error('Key derivation requires a 64-byte signature');
+  }
+  
+  const curve = bn254 as any;
+  
+  // 64 bytes of HKDF output reduced mod n keeps the scalar's bias negligible
+  const okm = hkdf(sha256, signature, 'shadowpay', 'elgamal-keypair-v1', 64);
+  const privateKeyBigInt = bytesToNumberBE(okm) % (curve.G1.CURVE.n - 1n) + 1n;
+  
+  const affine = curve.G1.ProjectivePoint.BASE.multiply(privateKeyBigInt).toAffine();
+  
+  return {
+    privateKey: numberToHex(privateKeyBigInt),
+    publicKey: {
+      x: numberToHex(affine.x),
+      y: numberToHex(affine.y),
+    },
+  };
+}
+
 /**
  * Encrypt an amount using ElGamal encryption
  * ElGamal: (C1, C2) = (rG, M + rP) where r is random, G is generator, M is message, P is public key
@@ -0,0 +1,334 @@
+/**
+ * ShadowID Merkle tree and path verification
+ * Lets clients check a tree service's inclusion proof before spending time on a ZK proof,
+ * and mirror the registry locally (sandboxes, audits of backend roots)
+ */
+
+import { hashPoseidon } from './poseidon';
+import { SHADOWID_TREE_DEPTH } from '../constants';
+
+/**
+ * Field element as a bigint, a decimal string or a 0x-prefixed hex string
+ */
+export type MerkleValue = bigint | string;
+
+/**
+ * Hash a leaf up its path to the root
+ * Each level hashes Poseidon(left, right); pathIndices[i] is 0 when the node is the left child, 1 when it is the right child
+ *
+ * @param leaf - Leaf value
+ * @param siblings - Sibling at each level, leaf level first
+ * @param pathIndices - Position of the node at each level (0 or 1)
+ * @returns Computed root
+ */
+export async function computeMerkleRoot(
+  leaf: MerkleValue,
+  siblings: MerkleValue[],
+  pathIndices: number[]
+): Promise<bigint> {
+  if (siblings.length !== pathIndices.length) {
+    throw new Error(`Merkle path has ${siblings.length} siblings but ${pathIndices.length} path indices`);
+  }
+
+  let node = toFieldElement(leaf);
+  for (let level = 0; level < siblings.length; level++) {
+    const sibling = toFieldElement(siblings[level]);
+    const index = pathIndices[level];
+    if (index !== 0 && index !== 1) {
+      throw new Error(`Invalid path index ${index} at level ${level}`);
+    }
+    node = index === 0
+      ? await hashPoseidon([node, sibling])
+      : await hashPoseidon([sibling, node]);
+  }
+  return node;
+}
+
+/**
+ * Check that a leaf is in the tree with the given root
+ *
+ * @param leaf - Leaf value (e.g. the sender commitment)
+ * @param siblings - Sibling at each level, leaf level first
+ * @param pathIndices - Position of the node at each level (0 or 1)
+ * @param root - Expected root
+ * @returns True if the path hashes to the root; false for mismatched or malformed paths
+ */
+export async function verifyMerklePath(
+  leaf: MerkleValue,
+  siblings: MerkleValue[],
+  pathIndices: number[],
+  root: MerkleValue
+): Promise<boolean> {
+  try {
+    return (await computeMerkleRoot(leaf, siblings, pathIndices)) === toFieldElement(root);
+  } catch (error) {
+    return false;
+  }
+}
+
+export interface MerkleProof {
+  leaf: bigint;
+  leafIndex: number;
+  root: bigint;
+  siblings: bigint[]; // Leaf level first
+  pathIndices: number[]; // 0 = node is a left child, 1 = right child
+}
+
+export interface MerkleTreeOptions {
+  depth?: number; // Levels above the leaves (default: SHADOWID_TREE_DEPTH)
+  zeroValue?: bigint; // Value of an empty leaf (default: 0)
+  rootHistorySize?: number; // Recent roots accepted by isKnownRoot() (default: 100)
+}
+
+/**
+ * Serialized tree (JSON-safe: field elements are decimal strings)
+ */
+export interface SerializedMerkleTree {
+  depth: number;
+  zeroValue: string;
+  rootHistorySize: number;
+  leaves: string[];
+}
+
+/**
+ * Append-only Poseidon Merkle tree with the ShadowID layout
+ * Nodes are Poseidon(left, right), empty leaves are 0 and leaves fill left to right
+ * Inserting costs one hash per level; proofs are read from stored nodes
+ *
+ * @example
+ * ```typescript
+ * const tree = new IncrementalMerkleTree();
+ * const index = await tree.insert(BigInt(senderCommitment));
+ * const proof = await tree.proof(index);
+ * await tree.verify(proof); // true
+ * ```
+ */
+export class IncrementalMerkleTree {
+  readonly depth: number;
+  readonly zeroValue: bigint;
+  readonly rootHistorySize: number;
+  private layers: bigint[][]; // layers[0] = leaves, layers[depth] = [root]
+  private zeros?: Promise<bigint[]>; // Root of an empty subtree at each level
+  private roots: bigint[] = []; // Most recent last
+  private queue: Promise<unknown> = Promise.resolve(); // Serializes inserts
+
+  constructor(options: MerkleTreeOptions = {}) {
+    this.depth = options.depth ?? SHADOWID_TREE_DEPTH;
+    this.zeroValue = options.zeroValue ?? 0n;
+    this.rootHistorySize = options.rootHistorySize ?? 100;
+    if (!Number.isInteger(this.depth) || this.depth < 1 || this.depth > 32) {
+      throw new Error(`Merkle tree depth must be between 1 and 32, got ${this.depth}`);
+    }
+    this.layers = Array.from({ length: this.depth + 1 }, () => []);
+  }
+
+  /**
+   * Rebuild a tree from serialize() output
+   *
+   * @param data - Serialized tree
+   * @returns Tree with the same leaves and root
+   */
+  static async deserialize(data: SerializedMerkleTree): Promise<IncrementalMerkleTree> {
+    const tree = new IncrementalMerkleTree({
+      depth: data.depth,
+      zeroValue: BigInt(data.zeroValue),
+      rootHistorySize: data.rootHistorySize,
+    });
+    await tree.insertMany(data.leaves.map(leaf => BigInt(leaf)));
+    return tree;
+  }
+
+  get size(): number {
+    return this.layers[0].length;
+  }
+
+  get capacity(): number {
+    return 2 ** this.depth;
+  }
+
+  /**
+   * @returns Leaves in insertion order
+   */
+  get leaves(): bigint[] {
+    return [...this.layers[0]];
+  }
+
+  /**
+   * Append a leaf
+   *
+   * @param leaf - Leaf value (field element)
+   * @returns Leaf index
+   */
+  insert(leaf: MerkleValue): Promise<number> {
+    const value = toFieldElement(leaf);
+    const inserted = this.queue.then(() => this.append(value));
+    this.queue = inserted.catch(() => undefined);
+    return inserted;
+  }
+
+  /**
+   * Append several leaves in order
+   *
+   * @param leaves - Leaf values
+   * @returns Index of the first leaf
+   */
+  async insertMany(leaves: MerkleValue[]): Promise<number> {
+    const first = this.size;
+    for (const leaf of leaves) {
+      await this.insert(leaf);
+    }
+    return first;
+  }
+
+  /**
+   * @param leaf - Leaf value
+   * @returns Index of the first matching leaf, or -1
+   */
+  indexOf(leaf: MerkleValue): number {
+    return this.layers[0].indexOf(toFieldElement(leaf));
+  }
+
+  /**
+   * @returns Current root (the empty-tree root before any insert)
+   */
+  async root(): Promise<bigint> {
+    await this.queue;
+    if (this.size === 0) {
+      return (await this.zeroHashes())[this.depth];
+    }
+    return this.layers[this.depth][0];
+  }
+
+  /**
+   * Roots after each of the most recent inserts, oldest first
+   *
+   * @returns Up to rootHistorySize roots
+   */
+  rootHistory(): bigint[] {
+    return [...this.roots];
+  }
+
+  /**
+   * Check a root against the current root and the recent history
+   * Use to accept proofs built shortly before newer leaves were added
+   *
+   * @param root - Root to check
+   * @returns True if known
+   */
+  async isKnownRoot(root: MerkleValue): Promise<boolean> {
+    const value = toFieldElement(root);
+    return value === (await this.root()) || this.roots.includes(value);
+  }
+
+  /**
+   * Build the inclusion proof for a leaf
+   *
+   * @param index - Leaf index
+   * @returns Proof against the current root
+   */
+  async proof(index: number): Promise<MerkleProof> {
+    await this.queue;
+    if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+      throw new Error(`No leaf at index ${index}`);
+    }
+
+    const zeros = await this.zeroHashes();
+    const siblings: bigint[] = [];
+    const pathIndices: number[] = [];
+
+    let position = index;
+    for (let level = 0; level < this.depth; level++) {
+      siblings.push(this.layers[level][position ^ 1] ?? zeros[level]);
+      pathIndices.push(position & 1);
+      position >>= 1;
+    }
+
+    return {
+      leaf: this.layers[0][index],
+      leafIndex: index,
+      root: this.layers[this.depth][0],
+      siblings,
+      pathIndices,
+    };
+  }
+
+  /**
+   * Check a proof against this tree's current or recent roots
+   *
+   * @param proof - Proof from this tree or a tree service
+   * @returns True if the path hashes to a known root
+   */
+  async verify(proof: Pick<MerkleProof, 'leaf' | 'root' | 'siblings' | 'pathIndices'>): Promise<boolean> {
+    return proof.siblings.length === this.depth
+      && await this.isKnownRoot(proof.root)
+      && await verifyMerklePath(proof.leaf, proof.siblings, proof.pathIndices, proof.root);
+  }
+
+  /**
+   * Snapshot the tree; deserialize() replays the leaves, restoring the root and root history
+   *
+   * @returns JSON-safe tree
+   */
+  serialize(): SerializedMerkleTree {
+    return {
+      depth: this.depth,
+      zeroValue: this.zeroValue.toString(),
+      rootHistorySize: this.rootHistorySize,
+      leaves: this.layers[0].map(leaf => leaf.toString()),
+    };
+  }
+
+  /**
+   * Helper: Add a leaf and rehash its path (one hash per level)
+   */
+  private async append(leaf: bigint): Promise<number> {
+    const index = this.size;
+    if (index >= this.capacity) {
+      throw new Error('Merkle tree is full');
+    }
+
+    // Hash the whole path before storing it, so readers never see a half-updated tree
+    const zeros = await this.zeroHashes();
+    const path = [leaf];
+    let position = index;
+    for (let level = 0; level < this.depth; level++) {
+      const node = path[level];
+      const left = position & 1 ? this.layers[level][position - 1] : node;
+      const right = position & 1 ? node : zeros[level];
+      path.push(await hashPoseidon([left, right]));
+      position >>= 1;
+    }
+
+    position = index;
+    for (let level = 0; level <= this.depth; level++) {
+      this.layers[level][position] = path[level];
+      position >>= 1;
+    }
+
+    this.roots.push(path[this.depth]);
+    if (this.roots.length > this.rootHistorySize) {
+      this.roots.shift();
+    }
+    return index;
+  }
+
+  private zeroHashes(): Promise<bigint[]> {
+    if (!this.zeros) {
+      this.zeros = (async () => {
+        const zeros = [this.zeroValue];
+        for (let level = 0; level < this.depth; level++) {
+          zeros.push(await hashPoseidon([zeros[level], zeros[level]]));
+        }
+        return zeros;
+      })();
+    }
+    return this.zeros;
+  }
+}
+
+/**
+ * Helper: Parse a field element
+ */
+function toFieldElement(value: MerkleValue): bigint {
+  return typeof value === 'bigint' ? value : BigInt(value);
+}
@@ -4,6 +4,7 @@
  */
 
 import { buildPoseidon } from 'circomlibjs';
+import { getLogger } from '../logger';
 
 let poseidonInstance: any = null;
 
@@ -12,6 +13,7 @@ let poseidonInstance: any = null;
  */
 async function getPoseidon() {
   if (!poseidonInstance) {
+    getLogger().debug('Initializing Poseidon hasher');
     poseidonInstance = await buildPoseidon();
   }
   return poseidonInstance;
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createApiError,
+  isShadowPayError,
+  InvalidApiKeyError,
+  RateLimitedError,
+  CommitmentNotRegisteredError,
+  NullifierAlreadyUsedError,
+  ShadowPayError,
+} from './errors';
+
+describe('createApiError', () => {
+  it('prefers the backend code over the status', () => {
+    const error = createApiError(400, { code: 'nullifier_used', error: 'Nullifier used' }, { action: 'Settlement' });
+    expect(error).toBeInstanceOf(NullifierAlreadyUsedError);
+    expect(error.message).toBe('Settlement failed: Nullifier used');
+  });
+
+  it('reads a 404 according to the endpoint', () => {
+    expect(createApiError(404, undefined, { action: 'Authorization', notFound: 'api-key' }))
+      .toBeInstanceOf(InvalidApiKeyError);
+    expect(createApiError(404, undefined, { action: 'Getting merkle proof', notFound: 'commitment' }))
+      .toBeInstanceOf(CommitmentNotRegisteredError);
+  });
+
+  it('keeps a 404 without a meaning as a plain ShadowPayError', () => {
+    const error = createApiError(404, undefined, { action: 'Getting merchant key info' });
+    expect(error.constructor).toBe(ShadowPayError);
+    expect(error.statusCode).toBe(404);
+  });
+
+  it('carries Retry-After on rate limits', () => {
+    const error = createApiError(429, undefined, { action: 'Authorization', retryAfterMs: 3000 });
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfterMs).toBe(3000);
+    expect(isShadowPayError(error, 'rate-limited')).toBe(true);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Error taxonomy shared by every ShadowPay package
+ * Match on error classes or `code`, never on message text
+ */
+
+export type ShadowPayErrorCode =
+  | 'invalid-api-key'
+  | 'rate-limited'
+  | 'commitment-not-registered'
+  | 'proof-deadline-expired'
+  | 'nullifier-already-used'
+  | 'network-error'
+  | 'malformed-response'
+  | 'invalid-merkle-proof'
+  | 'api-error'; // Any other rejection by the backend
+
+/**
+ * Base class for ShadowPay API errors
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await shadowpay.pay({ amount: 0.001 });
+ * } catch (error) {
+ *   if (error instanceof RateLimitedError) {
+ *     await sleep(error.retryAfterMs ?? 1000);
+ *   } else if (isShadowPayError(error, 'invalid-api-key')) {
+ *     showConfigurationError();
+ *   }
+ * }
+ * ```
+ */
+export class ShadowPayError extends Error {
+  code: ShadowPayErrorCode;
+
+  constructor(
+    message: string,
+    public statusCode: number, // HTTP status (0 when no response was received)
+    public details?: any, // Response body or underlying error
+    code: ShadowPayErrorCode = 'api-error'
+  ) {
+    super(message);
+    this.name = 'ShadowPayError';
+    this.code = code;
+  }
+}
+
+/**
+ * The API key is unknown or revoked
+ */
+export class InvalidApiKeyError extends ShadowPayError {
+  constructor(message: string = 'Invalid API key - please check your merchant API key', statusCode: number = 401, details?: any) {
+    super(message, statusCode, details, 'invalid-api-key');
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+/**
+ * Too many requests; still failing after the retry policy gave up
+ */
+export class RateLimitedError extends ShadowPayError {
+  constructor(
+    message: string = 'Rate limited by the ShadowPay API',
+    public retryAfterMs?: number, // From the Retry-After header, when sent
+    details?: any
+  ) {
+    super(message, 429, details, 'rate-limited');
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * The wallet's commitment is not in the ShadowID tree (register it first)
+ */
+export class CommitmentNotRegisteredError extends ShadowPayError {
+  constructor(
+    message: string = 'Commitment not found in merkle tree - user may need to register with ShadowID first',
+    statusCode: number = 404,
+    details?: any
+  ) {
+    super(message, statusCode, details, 'commitment-not-registered');
+    this.name = 'CommitmentNotRegisteredError';
+  }
+}
+
+/**
+ * The settlement proof arrived after the payment's proof deadline
+ */
+export class ProofDeadlineExpiredError extends ShadowPayError {
+  constructor(message: string = 'Proof deadline expired', statusCode: number = 400, details?: any) {
+    super(message, statusCode, details, 'proof-deadline-expired');
+    this.name = 'ProofDeadlineExpiredError';
+  }
+}
+
+/**
+ * The payment nullifier was already spent (duplicate payment)
+ */
+export class NullifierAlreadyUsedError extends ShadowPayError {
+  constructor(message: string = 'Nullifier already used', statusCode: number = 409, details?: any) {
+    super(message, statusCode, details, 'nullifier-already-used');
+    this.name = 'NullifierAlreadyUsedError';
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, TLS, connection reset)
+ */
+export class NetworkError extends ShadowPayError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 0, cause, 'network-error');
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The backend answered with a body that does not match the documented shape
+ */
+export class MalformedResponseError extends ShadowPayError {
+  constructor(message: string, statusCode: number = 200, details?: any) {
+    super(message, statusCode, details, 'malformed-response');
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * The ShadowID merkle proof does not hash to its root, or the root is not trusted
+ * Raised before proving, so a bad tree service costs a request instead of a failed proving run
+ */
+export class InvalidMerkleProofError extends ShadowPayError {
+  constructor(
+    message: string,
+    public reason: 'path-mismatch' | 'untrusted-root',
+    details?: any
+  ) {
+    super(message, 0, details, 'invalid-merkle-proof');
+    this.name = 'InvalidMerkleProofError';
+  }
+}
+
+export interface ApiErrorContext {
+  action: string; // Prefix for the message, e.g. 'Authorization'
+  notFound?: 'api-key' | 'commitment'; // What a 404 means for this endpoint
+  retryAfterMs?: number; // Parsed Retry-After header, for 429s
+}
+
+// Machine-readable codes the backend may send in `code`
+const BACKEND_CODES: Record<string, ShadowPayErrorCode> = {
+  invalid_api_key: 'invalid-api-key',
+  rate_limited: 'rate-limited',
+  commitment_not_found: 'commitment-not-registered',
+  commitment_not_registered: 'commitment-not-registered',
+  proof_deadline_expired: 'proof-deadline-expired',
+  deadline_expired: 'proof-deadline-expired',
+  nullifier_already_used: 'nullifier-already-used',
+  nullifier_used: 'nullifier-already-used',
+};
+
+/**
+ * Map a failed API response to the matching error class
+ * Uses the body's `code` when present, then the status code
+ * Message text is only consulted for 400s, which the backend sends for several failures without a code
+ *
+ * @param status - HTTP status
+ * @param body - Parsed response body (or undefined)
+ * @param context - What was being done, and how to read 404s and 429s
+ * @returns Typed error (not thrown)
+ */
+export function createApiError(status: number, body: unknown, context: ApiErrorContext): ShadowPayError {
+  const reason = readErrorMessage(body) || `HTTP ${status}`;
+  const message = `${context.action} failed: ${reason}`;
+
+  switch (classifyResponse(status, body, reason, context)) {
+    case 'invalid-api-key':
+      return new InvalidApiKeyError(undefined, status, body);
+    case 'rate-limited':
+      return new RateLimitedError(message, context.retryAfterMs, body);
+    case 'commitment-not-registered':
+      return new CommitmentNotRegisteredError(undefined, status, body);
+    case 'proof-deadline-expired':
+      return new ProofDeadlineExpiredError(message, status, body);
+    case 'nullifier-already-used':
+      return new NullifierAlreadyUsedError(message, status, body);
+    default:
+      return new ShadowPayError(message, status, body);
+  }
+}
+
+/**
+ * Check whether a value is a ShadowPay error, optionally with a given code
+ *
+ * @param error - Caught value
+ * @param code - Expected code
+ * @returns True if it matches
+ */
+export function isShadowPayError(error: unknown, code?: ShadowPayErrorCode): error is ShadowPayError {
+  return error instanceof ShadowPayError && (code === undefined || error.code === code);
+}
+
+/**
+ * Helper: Pick the error code for a failed response
+ */
+function classifyResponse(
+  status: number,
+  body: unknown,
+  reason: string,
+  context: ApiErrorContext
+): ShadowPayErrorCode {
+  const backendCode = body && typeof body === 'object' ? (body as { code?: unknown }).code : undefined;
+  if (typeof backendCode === 'string') {
+    const code = BACKEND_CODES[backendCode.toLowerCase().replace(/-/g, '_')];
+    if (code) {
+      return code;
+    }
+  }
+
+  if (status === 401 || status === 403) return 'invalid-api-key';
+  if (status === 429) return 'rate-limited';
+  if (status === 409) return 'nullifier-already-used';
+  if (status === 410) return 'proof-deadline-expired';
+  if (status === 404 && context.notFound === 'api-key') return 'invalid-api-key';
+  if (status === 404 && context.notFound === 'commitment') return 'commitment-not-registered';
+
+  if (status === 400) {
+    if (/deadline/i.test(reason)) return 'proof-deadline-expired';
+    if (/nullifier/i.test(reason)) return 'nullifier-already-used';
+    if (/not registered|not found in merkle/i.test(reason)) return 'commitment-not-registered';
+  }
+  return 'api-error';
+}
+
+/**
+ * Helper: Read the message from an error body ({ error } or { message })
+ */
+function readErrorMessage(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+  const { error, message } = body as { error?: unknown; message?: unknown };
+  if (typeof error === 'string') return error;
+  if (typeof message === 'string') return message;
+  return undefined;
+}
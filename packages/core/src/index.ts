@@ -9,6 +9,7 @@ export * from './crypto/poseidon';
 export * from './crypto/nullifier';
 export * from './crypto/commitment';
 export * from './crypto/utils';
+export * from './crypto/merkle';
 
 // Token utilities
 export * from './tokens';
@@ -16,6 +17,16 @@ export * from './tokens';
 // Constants
 export * from './constants';
 
+// Verification keys and public signals
+export * from './verification-keys';
+
+// Logging
+export * from './logger';
+
+// Errors and response validation
+export * from './errors';
+export * from './validation';
+
 // Types
 export * from './types';
 
@@ -0,0 +1,81 @@
+/**
+ * Pluggable logging for ShadowPay SDK
+ * Silent by default; pass a logger to see SDK diagnostics or forward them to your telemetry
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Logger accepted by every ShadowPay package (console-compatible)
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Logger that drops everything (SDK default)
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Create a logger that writes to the console
+ *
+ * @param options - Minimum level (default: 'info') and message prefix (default: '[shadowpay]')
+ * @returns Console logger
+ */
+export function createConsoleLogger(
+  options: { level?: LogLevel; prefix?: string } = {}
+): Logger {
+  const minimum = LOG_LEVEL_ORDER[options.level || 'info'];
+  const prefix = options.prefix ?? '[shadowpay]';
+
+  const write = (level: LogLevel) => (message: string, ...args: unknown[]) => {
+    if (LOG_LEVEL_ORDER[level] < minimum) {
+      return;
+    }
+    const line = prefix ? `${prefix} ${message}` : message;
+    console[level](line, ...args);
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+let sdkLogger: Logger = silentLogger;
+
+/**
+ * Set the logger used by helpers that have no logger option (core crypto helpers)
+ *
+ * @param logger - Logger to use, or undefined to go back to silent
+ */
+export function setLogger(logger?: Logger): void {
+  sdkLogger = logger || silentLogger;
+}
+
+/**
+ * Get the logger set with setLogger()
+ *
+ * @returns Current SDK-wide logger
+ */
+export function getLogger(): Logger {
+  return sdkLogger;
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { parseAmount, formatAmount } from './tokens';
+
+describe('parseAmount', () => {
+  it('rounds to the smallest unit instead of flooring', () => {
+    expect(parseAmount(0.29, 'USDC')).toBe(290000);
+    expect(parseAmount(0.57, 'usdt')).toBe(570000);
+    expect(parseAmount(0.001, 'SOL')).toBe(1000000);
+  });
+
+  it('rejects unknown tokens', () => {
+    expect(() => parseAmount(1, 'BONK')).toThrow('Unsupported token: BONK');
+  });
+});
+
+describe('formatAmount', () => {
+  it('converts the smallest unit back to token units', () => {
+    expect(formatAmount(290000, 'USDC')).toBe(0.29);
+  });
+});
@@ -47,7 +47,8 @@ export function parseAmount(amount: number, token: string): number {
     throw new Error(`Unsupported token: ${token}`);
   }
   
-  return Math.floor(amount * Math.pow(10, config.decimals));
+  // Floating-point products land just below whole units (0.29 USDC would floor to 289999)
+  return Math.round(amount * Math.pow(10, config.decimals));
 }
 
 /**
@@ -0,0 +1,132 @@
+/**
+ * Runtime validation of API responses
+ * Small schema combinators so a changed backend fails loudly instead of leaking undefined fields
+ */
+
+import { MalformedResponseError } from './errors';
+
+/**
+ * Validates a value and returns it typed; throws a SchemaError describing the first mismatch
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/**
+ * Type a schema validates
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+class SchemaError extends Error {
+  constructor(public path: string, expected: string, value: unknown) {
+    super(`${path}: expected ${expected}, got ${describe(value)}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export const schema = {
+  string(): Schema<string> {
+    return (value, path) => {
+      if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+      return value;
+    };
+  },
+
+  number(): Schema<number> {
+    return (value, path) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(path, 'number', value);
+      return value;
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return (value, path) => {
+      if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+      return value;
+    };
+  },
+
+  literal<T extends string>(...options: T[]): Schema<T> {
+    return (value, path) => {
+      if (!options.includes(value as T)) throw new SchemaError(path, options.map(o => `'${o}'`).join(' | '), value);
+      return value as T;
+    };
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return (value, path) => (value === undefined || value === null ? undefined : inner(value, path));
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return (value, path) => {
+      if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+      return value.map((entry, i) => item(entry, `${path}[${i}]`));
+    };
+  },
+
+  /**
+   * Object with the given fields; fields not in the shape are kept as-is
+   */
+  object<T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+    return (value, path) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) throw new SchemaError(path, 'object', value);
+      const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      for (const key of Object.keys(shape)) {
+        const field = shape[key as keyof T](result[key], `${path}.${key}`);
+        if (field === undefined) {
+          delete result[key];
+        } else {
+          result[key] = field;
+        }
+      }
+      return result as T;
+    };
+  },
+};
+
+/**
+ * Validate a parsed response body
+ *
+ * @param s - Expected shape
+ * @param value - Parsed JSON
+ * @param description - What the body is, for the error message (e.g. 'authorize response')
+ * @param statusCode - HTTP status of the response
+ * @returns Typed body
+ * @throws MalformedResponseError if the body does not match
+ */
+export function parseResponse<T>(s: Schema<T>, value: unknown, description: string, statusCode: number = 200): T {
+  try {
+    return s(value, 'body');
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new MalformedResponseError(`Malformed ${description}: ${error.message}`, statusCode, value);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read and validate a JSON response
+ *
+ * @param response - Successful fetch response
+ * @param s - Expected shape
+ * @param description - What the body is, for the error message
+ * @returns Typed body
+ * @throws MalformedResponseError if the body is not JSON or does not match
+ */
+export async function readJsonResponse<T>(response: Response, s: Schema<T>, description: string): Promise<T> {
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error) {
+    throw new MalformedResponseError(`Malformed ${description}: body is not JSON`, response.status, error);
+  }
+  return parseResponse(s, body, description, response.status);
+}
+
+/**
+ * Helper: Short description of a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,123 @@
+/**
+ * Groth16 verification keys bundled per circuit version, and the payment circuit's public signals
+ * Lets merchants check settlement proofs offline, without trusting the facilitator or the artifact host,
+ * once a release's key is bundled here (scripts/pin-circuit.ts)
+ */
+
+import type { CircuitVersion } from './constants';
+
+// BN254 scalar field; public signals are elements of it
+const BN254_FIELD_MODULUS = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/**
+ * snarkjs verification_key.json for a Groth16 circuit
+ */
+export interface Groth16VerificationKey {
+  protocol: 'groth16';
+  curve: 'bn128';
+  nPublic: number; // Number of public signals
+  vk_alpha_1: string[];
+  vk_beta_2: string[][];
+  vk_gamma_2: string[][];
+  vk_delta_2: string[][];
+  vk_alphabeta_12?: string[][][];
+  IC: string[][]; // nPublic + 1 points
+}
+
+/**
+ * Groth16 proof as output by snarkjs
+ */
+export interface Groth16Proof {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+  protocol?: string;
+  curve?: string;
+}
+
+// Verification key of each circuit version, copied from the release's verification_key.json by scripts/pin-circuit.ts
+// undefined until the release is pinned: such a version can only be verified against a key passed in or a pinned hosted key
+export const VERIFICATION_KEYS: Record<CircuitVersion, Groth16VerificationKey | undefined> = {
+  elgamal: undefined,
+};
+
+/**
+ * Public signals of a payment proof, by name
+ */
+export interface PaymentPublicSignals {
+  commitment: bigint; // Payment commitment (circuit output)
+  nullifier: bigint; // Spent once per payment; a repeat is a double spend (circuit output)
+  root: bigint; // ShadowID tree root the sender proved membership in
+  maxAmount: bigint; // Upper bound on the encrypted amount (base units)
+  receiverPubkey: bigint; // Receiver ElGamal public key (x coordinate)
+}
+
+// Order of each circuit version's public signals: outputs first, then public inputs in declaration order (snarkjs layout)
+// Not yet checked against the released circuit (scripts/pin-circuit.ts refuses a key whose nPublic differs), so
+// verifyPaymentProof() only uses it to name signals and never rejects a proof over it
+export const PAYMENT_PUBLIC_SIGNALS: Record<CircuitVersion, readonly (keyof PaymentPublicSignals)[]> = {
+  elgamal: ['commitment', 'nullifier', 'root', 'maxAmount', 'receiverPubkey'],
+};
+
+/**
+ * Get the bundled verification key of a circuit version
+ *
+ * @param circuit - Circuit version (default: 'elgamal')
+ * @returns Verification key, or undefined if none is bundled for that version
+ */
+export function getVerificationKey(circuit: CircuitVersion = 'elgamal'): Groth16VerificationKey | undefined {
+  return VERIFICATION_KEYS[circuit];
+}
+
+/**
+ * Parse public signals as field elements, whatever the circuit's layout
+ *
+ * @param publicSignals - Public signals as output by snarkjs (decimal strings)
+ * @returns Signal values
+ * @throws Error if a signal is not a field element
+ */
+export function parsePublicSignals(publicSignals: (string | bigint)[]): bigint[] {
+  if (!Array.isArray(publicSignals)) {
+    throw new Error('Public signals must be an array');
+  }
+  return publicSignals.map((value, i) => parseSignal(value, String(i)));
+}
+
+/**
+ * Name the public signals of a payment proof
+ *
+ * @param publicSignals - Public signals as output by snarkjs (decimal strings)
+ * @param circuit - Circuit version that produced them (default: 'elgamal')
+ * @returns Decoded signals
+ * @throws Error if the count does not match the circuit or a signal is not a field element
+ */
+export function decodePublicSignals(
+  publicSignals: (string | bigint)[],
+  circuit: CircuitVersion = 'elgamal'
+): PaymentPublicSignals {
+  const layout = PAYMENT_PUBLIC_SIGNALS[circuit];
+  if (!Array.isArray(publicSignals) || publicSignals.length !== layout.length) {
+    const count = Array.isArray(publicSignals) ? publicSignals.length : 0;
+    throw new Error(`Expected ${layout.length} public signals for circuit "${circuit}", got ${count}`);
+  }
+
+  const signals = {} as PaymentPublicSignals;
+  layout.forEach((name, i) => {
+    signals[name] = parseSignal(publicSignals[i], name);
+  });
+  return signals;
+}
+
+/**
+ * Helper: Parse one public signal as a field element
+ */
+function parseSignal(value: string | bigint, name: string): bigint {
+  if (typeof value !== 'bigint' && !(typeof value === 'string' && /^(\d+|0x[0-9a-fA-F]+)$/.test(value))) {
+    throw new Error(`Public signal "${name}" is not a number`);
+  }
+  const signal = BigInt(value);
+  if (signal < 0n || signal >= BN254_FIELD_MODULUS) {
+    throw new Error(`Public signal "${name}" is not a BN254 field element`);
+  }
+  return signal;
+}
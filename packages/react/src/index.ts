@@ -0,0 +1,19 @@
+/**
+ * @shadowpay/react
+ * React hooks and provider for ShadowPay - accept private payments on Solana
+ */
+
+// Provider
+export { ShadowPayProvider, useShadowPay } from './provider';
+
+export type { ShadowPayProviderProps } from './provider';
+
+// Payments
+export { usePayment, toWalletInterface } from './use-payment';
+
+export type { UsePaymentStatus, UsePaymentState, UsePaymentResult, PayOptions } from './use-payment';
+
+// Payment history
+export { usePaymentHistory } from './use-payment-history';
+
+export type { UsePaymentHistoryResult } from './use-payment-history';
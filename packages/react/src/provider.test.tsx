@@ -0,0 +1,86 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { StrictMode, act, type ReactNode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { ShadowPay, MemoryKeyStore, silentLogger, type ShadowPayOptions } from '@shadowpay/client';
+import { ShadowPayProvider, useShadowPay } from './provider';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const OPTIONS: ShadowPayOptions = {
+  merchantKey: 'merchant-key',
+  merchantWallet: 'merchant-wallet',
+  keyStore: new MemoryKeyStore(),
+  logger: silentLogger,
+};
+
+let root: Root | null = null;
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+  vi.restoreAllMocks();
+});
+
+function render(element: ReactNode) {
+  if (!root) {
+    root = createRoot(document.createElement('div'));
+  }
+  act(() => root!.render(element));
+}
+
+/**
+ * Renders nothing; records the client it receives on every render
+ */
+function clientsSeen() {
+  const clients: ShadowPay[] = [];
+  function Probe() {
+    clients.push(useShadowPay());
+    return null;
+  }
+  return { clients, Probe };
+}
+
+describe('ShadowPayProvider', () => {
+  it('starts prefetching once per client, even in StrictMode', () => {
+    const prefetch = vi.spyOn(ShadowPay.prototype, 'prefetchCircuit').mockResolvedValue();
+    const { clients, Probe } = clientsSeen();
+
+    render(
+      <StrictMode>
+        <ShadowPayProvider {...OPTIONS} prefetchCircuit>
+          <Probe />
+        </ShadowPayProvider>
+      </StrictMode>
+    );
+
+    expect(prefetch).toHaveBeenCalledTimes(1);
+    expect(prefetch.mock.instances[0]).toBe(clients[clients.length - 1]);
+  });
+
+  it('keeps the client while options are unchanged and rebuilds it when one changes', () => {
+    const { clients, Probe } = clientsSeen();
+
+    render(<ShadowPayProvider {...OPTIONS}><Probe /></ShadowPayProvider>);
+    render(<ShadowPayProvider {...OPTIONS}><Probe /></ShadowPayProvider>);
+    expect(clients[1]).toBe(clients[0]);
+
+    render(<ShadowPayProvider {...OPTIONS} keyStore={new MemoryKeyStore()}><Probe /></ShadowPayProvider>);
+    expect(clients[2]).not.toBe(clients[0]);
+  });
+
+  it('uses a passed client as is', () => {
+    const prefetch = vi.spyOn(ShadowPay.prototype, 'prefetchCircuit').mockResolvedValue();
+    const client = new ShadowPay(OPTIONS);
+    const { clients, Probe } = clientsSeen();
+
+    render(<ShadowPayProvider client={client}><Probe /></ShadowPayProvider>);
+    expect(clients).toEqual([client]);
+    expect(prefetch).not.toHaveBeenCalled();
+  });
+
+  it('requires a provider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { Probe } = clientsSeen();
+    expect(() => render(<Probe />)).toThrow('useShadowPay() must be used inside <ShadowPayProvider>');
+  });
+});
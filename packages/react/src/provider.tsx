@@ -0,0 +1,88 @@
+/**
+ * ShadowPay React context
+ * Shares one ShadowPay client with every hook below the provider
+ */
+
+import { createContext, useContext, useEffect, useRef, type ReactNode } from 'react';
+import { ShadowPay, type ShadowPayOptions } from '@shadowpay/client';
+
+const ShadowPayContext = createContext<ShadowPay | null>(null);
+
+// Clients whose prefetch / settlement resume already started (effects can run twice in StrictMode)
+const started = new WeakSet<ShadowPay>();
+
+export type ShadowPayProviderProps =
+  | (ShadowPayOptions & { client?: undefined; children?: ReactNode })
+  | { client: ShadowPay; children?: ReactNode }; // Bring your own client (e.g. a subclass)
+
+/**
+ * Provide a ShadowPay client to useShadowPay(), usePayment() and usePaymentHistory()
+ * The client is rebuilt when any option changes (compared by identity), so memoize object and
+ * function options such as keyStore, logger or fetch. Building it has no side effects;
+ * prefetchCircuit and autoResumeSettlements start once the client is committed
+ *
+ * @example
+ * ```tsx
+ * <ConnectionProvider endpoint={endpoint}>
+ *   <WalletProvider wallets={wallets} autoConnect>
+ *     <ShadowPayProvider merchantKey={merchantKey} merchantWallet={merchantWallet}>
+ *       <App />
+ *     </ShadowPayProvider>
+ *   </WalletProvider>
+ * </ConnectionProvider>
+ * ```
+ */
+export function ShadowPayProvider(props: ShadowPayProviderProps) {
+  const { children, client, ...rest } = props;
+  const options = rest as ShadowPayOptions;
+  const built = useRef<{ options: ShadowPayOptions; client: ShadowPay } | null>(null);
+
+  if (!client && (!built.current || !shallowEqual(built.current.options, options))) {
+    built.current = {
+      options,
+      client: new ShadowPay({ ...options, prefetchCircuit: false, autoResumeSettlements: false }),
+    };
+  }
+  const shadowpay = client || built.current!.client;
+  const prefetchCircuit = !client && options.prefetchCircuit;
+  const autoResumeSettlements = !client && options.autoResumeSettlements;
+
+  useEffect(() => {
+    if (started.has(shadowpay) || (!prefetchCircuit && !autoResumeSettlements)) {
+      return;
+    }
+    started.add(shadowpay);
+    if (prefetchCircuit) {
+      // A failed prefetch is retried when the first proof loads the artifacts
+      shadowpay.prefetchCircuit().catch(() => undefined);
+    }
+    if (autoResumeSettlements) {
+      // Failures are reported through 'failed' events
+      shadowpay.resumePendingSettlements().catch(() => undefined);
+    }
+  }, [shadowpay, prefetchCircuit, autoResumeSettlements]);
+
+  return <ShadowPayContext.Provider value={shadowpay}>{children}</ShadowPayContext.Provider>;
+}
+
+/**
+ * Get the ShadowPay client from the nearest ShadowPayProvider
+ *
+ * @returns ShadowPay client
+ * @throws Error if there is no ShadowPayProvider above the component
+ */
+export function useShadowPay(): ShadowPay {
+  const shadowpay = useContext(ShadowPayContext);
+  if (!shadowpay) {
+    throw new Error('useShadowPay() must be used inside <ShadowPayProvider>');
+  }
+  return shadowpay;
+}
+
+/**
+ * Helper: Same keys with identical values
+ */
+function shallowEqual(a: object, b: object): boolean {
+  const aKeys = Object.keys(a) as Array<keyof typeof a>;
+  return aKeys.length === Object.keys(b).length && aKeys.every(key => Object.is(a[key], b[key]));
+}
@@ -0,0 +1,75 @@
+/**
+ * usePaymentHistory hook
+ * Loads payment history and refreshes it as payments progress
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PaymentHistory, PaymentHistoryQuery } from '@shadowpay/client';
+import { useShadowPay } from './provider';
+
+export interface UsePaymentHistoryResult {
+  items: PaymentHistory[];
+  total: number; // Matching records before pagination
+  loading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Query the client's payment history
+ * Reloads when the query changes and whenever a payment is authorized, settles or fails
+ *
+ * @example
+ * ```tsx
+ * const { items, total, loading } = usePaymentHistory({ status: 'settled', limit: 20 });
+ * ```
+ *
+ * @param query - Date range, token, merchant and status filters plus offset/limit
+ * @returns Matching records and loading state
+ */
+export function usePaymentHistory(query: PaymentHistoryQuery = {}): UsePaymentHistoryResult {
+  const shadowpay = useShadowPay();
+  const [items, setItems] = useState<PaymentHistory[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Compare queries by value so inline objects don't reload every render
+  const queryKey = JSON.stringify(query);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const page = await shadowpay.getPaymentHistory(JSON.parse(queryKey, reviveDates));
+      setItems(page.items);
+      setTotal(page.total);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [shadowpay, queryKey]);
+
+  useEffect(() => {
+    refresh();
+    const reload = () => {
+      refresh();
+    };
+    const unsubscribe = [
+      shadowpay.on('authorized', reload),
+      shadowpay.on('settled', reload),
+      shadowpay.on('failed', reload),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [shadowpay, refresh]);
+
+  return { items, total, loading, error, refresh };
+}
+
+/**
+ * Helper: Restore Date bounds serialized into the query key
+ */
+function reviveDates(key: string, value: unknown): unknown {
+  return (key === 'from' || key === 'to') && typeof value === 'string' ? new Date(value) : value;
+}
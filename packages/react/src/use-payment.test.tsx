@@ -0,0 +1,127 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import type { PaymentOptions, PaymentResult, ShadowPay, WalletInterface } from '@shadowpay/client';
+import { ShadowPayProvider } from './provider';
+import { usePayment, type UsePaymentResult } from './use-payment';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const WALLET = { publicKey: null, connected: true } as unknown as WalletInterface;
+
+const PAYMENT: PaymentResult = {
+  paymentId: 'p1',
+  accessToken: 'access-token',
+  commitment: '123',
+  status: 'authorized',
+  proofPending: true,
+};
+
+let root: Root | null = null;
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+});
+
+/**
+ * Render usePayment() against a client whose pay() is the given function
+ */
+function renderUsePayment(pay: (options: PaymentOptions) => Promise<PaymentResult>) {
+  const result: { current?: UsePaymentResult } = {};
+  function Probe() {
+    result.current = usePayment();
+    return null;
+  }
+
+  root = createRoot(document.createElement('div'));
+  act(() => root!.render(
+    <ShadowPayProvider client={{ pay } as unknown as ShadowPay}>
+      <Probe />
+    </ShadowPayProvider>
+  ));
+  return result as { current: UsePaymentResult };
+}
+
+/**
+ * Abort signal that counts its abort listeners
+ */
+function countingSignal() {
+  const controller = new AbortController();
+  let listeners = 0;
+  const { addEventListener, removeEventListener } = controller.signal;
+  controller.signal.addEventListener = ((...args: Parameters<typeof addEventListener>) => {
+    listeners++;
+    addEventListener.apply(controller.signal, args);
+  }) as typeof addEventListener;
+  controller.signal.removeEventListener = ((...args: Parameters<typeof removeEventListener>) => {
+    listeners--;
+    removeEventListener.apply(controller.signal, args);
+  }) as typeof removeEventListener;
+  return { controller, listeners: () => listeners };
+}
+
+describe('usePayment', () => {
+  it('tracks a payment from authorization to settlement', async () => {
+    const payment = renderUsePayment(async options => {
+      options.onEvent?.({ type: 'authorized', paymentId: 'p1' } as never);
+      return PAYMENT;
+    });
+
+    await act(() => payment.current.pay({ amount: 0.001, wallet: WALLET }));
+    expect(payment.current).toMatchObject({ status: 'authorized', progress: 30, payment: PAYMENT, error: null });
+  });
+
+  it('releases the caller signal once the payment settles', async () => {
+    const { controller, listeners } = countingSignal();
+    let settle!: () => void;
+    const payment = renderUsePayment(async options => {
+      settle = () => options.onEvent?.({ type: 'settled', paymentId: 'p1', settlement: {} } as never);
+      return PAYMENT;
+    });
+
+    await act(() => payment.current.pay({ amount: 0.001, wallet: WALLET, signal: controller.signal }));
+    expect(listeners()).toBe(1); // Still cancels the background proof
+
+    act(() => settle());
+    expect(listeners()).toBe(0);
+    expect(payment.current.status).toBe('settled');
+  });
+
+  it('releases the caller signal when the payment fails or is detached', async () => {
+    const failing = countingSignal();
+    const rejected = renderUsePayment(async () => {
+      throw new Error('Insufficient balance');
+    });
+    await act(() => expect(rejected.current.pay({ amount: 1, wallet: WALLET, signal: failing.controller.signal }))
+      .rejects.toThrow('Insufficient balance'));
+    expect(failing.listeners()).toBe(0);
+    expect(rejected.current.status).toBe('failed');
+
+    act(() => root?.unmount());
+    const detached = countingSignal();
+    const payment = renderUsePayment(async () => PAYMENT);
+    await act(() => payment.current.pay({
+      amount: 1,
+      wallet: WALLET,
+      signal: detached.controller.signal,
+      detachSettlement: true,
+    }));
+    expect(detached.listeners()).toBe(0);
+  });
+
+  it('aborts the payment when the caller signal aborts', async () => {
+    const { controller, listeners } = countingSignal();
+    let received: AbortSignal | undefined;
+    const payment = renderUsePayment(async options => {
+      received = options.signal;
+      return PAYMENT;
+    });
+
+    await act(() => payment.current.pay({ amount: 0.001, wallet: WALLET, signal: controller.signal }));
+    controller.abort(new Error('Navigated away'));
+    expect(received?.aborted).toBe(true);
+    expect(received?.reason).toEqual(new Error('Navigated away'));
+    expect(listeners()).toBe(0);
+  });
+});
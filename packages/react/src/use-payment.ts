@@ -0,0 +1,210 @@
+/**
+ * usePayment hook
+ * Runs a payment with the connected wallet and tracks it through settlement
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useWallet, type WalletContextState } from '@solana/wallet-adapter-react';
+import type {
+  PaymentOptions,
+  PaymentResult,
+  PaymentStatus,
+  PaymentEvent,
+  PaymentEventType,
+  Settlement,
+  WalletInterface,
+} from '@shadowpay/client';
+import { useShadowPay } from './provider';
+
+export type UsePaymentStatus = 'idle' | 'paying' | PaymentStatus;
+
+export type PayOptions = Omit<PaymentOptions, 'wallet'> & {
+  wallet?: WalletInterface; // Defaults to the wallet from @solana/wallet-adapter-react
+};
+
+export interface UsePaymentState {
+  status: UsePaymentStatus;
+  progress: number; // 0-100, from lifecycle events
+  payment: PaymentResult | null; // Set once access is granted
+  settlement: Settlement | null; // Set once settled on-chain
+  error: Error | null;
+}
+
+export interface UsePaymentResult extends UsePaymentState {
+  pay: (options: PayOptions) => Promise<PaymentResult>; // Rejects if access isn't granted
+  cancel: () => void; // Aborts the payment, including its background proof
+  reset: () => void; // Back to 'idle'
+}
+
+const IDLE: UsePaymentState = {
+  status: 'idle',
+  progress: 0,
+  payment: null,
+  settlement: null,
+  error: null,
+};
+
+// Progress reached when each lifecycle event fires
+const PROGRESS: Partial<Record<PaymentEventType, number>> = {
+  registered: 10,
+  authorized: 30,
+  'merkle-proof-fetched': 40,
+  'proof-started': 50,
+  'proof-generated': 85,
+  'settlement-submitted': 95,
+  settled: 100,
+};
+
+/**
+ * Pay with the connected wallet and follow the payment to settlement
+ * Leaving the page does not cancel settlement; see resumePendingSettlements()
+ *
+ * @example
+ * ```tsx
+ * const { pay, status, progress, error } = usePayment();
+ *
+ * <button onClick={() => pay({ amount: 0.001 }).then(unlock)} disabled={status === 'paying'}>
+ *   {status === 'settling' ? `Settling ${progress}%` : 'Unlock for 0.001 SOL'}
+ * </button>
+ * ```
+ *
+ * @returns Payment state plus pay(), cancel() and reset()
+ */
+export function usePayment(): UsePaymentResult {
+  const shadowpay = useShadowPay();
+  const wallet = useWallet();
+  const [state, setState] = useState<UsePaymentState>(IDLE);
+  const attempt = useRef(0); // Ignores updates from superseded payments
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    attempt.current++;
+  }, []);
+
+  const pay = useCallback(async (options: PayOptions): Promise<PaymentResult> => {
+    const id = ++attempt.current;
+    const abort = new AbortController();
+    controller.current = abort;
+    const update = (next: (prev: UsePaymentState) => UsePaymentState) => {
+      if (id === attempt.current) {
+        setState(next);
+      }
+    };
+
+    update(() => ({ ...IDLE, status: 'paying' }));
+
+    // The background proof listens to the signal too, so the caller's signal is released when it ends
+    const signal = options.signal
+      ? anySignal(options.signal, abort.signal)
+      : { signal: abort.signal, dispose: () => {} };
+
+    const onEvent = (event: PaymentEvent) => {
+      options.onEvent?.(event);
+      if (event.type === 'settled' || event.type === 'failed') {
+        signal.dispose();
+      }
+      update(prev => ({
+        ...prev,
+        progress: Math.max(prev.progress, PROGRESS[event.type] ?? prev.progress),
+        status: statusAfter(event, prev.status),
+        settlement: event.type === 'settled' ? event.settlement : prev.settlement,
+        error: event.type === 'failed' ? event.error : prev.error,
+      }));
+    };
+
+    try {
+      const payment = await shadowpay.pay({
+        ...options,
+        wallet: options.wallet || toWalletInterface(wallet),
+        signal: signal.signal,
+        onEvent,
+      });
+      update(prev => ({ ...prev, payment }));
+      if (options.detachSettlement) {
+        signal.dispose();
+      }
+      return payment;
+    } catch (error) {
+      signal.dispose();
+      update(prev => ({
+        ...prev,
+        status: 'failed',
+        error: error instanceof Error ? error : new Error(String(error)),
+      }));
+      throw error;
+    }
+  }, [shadowpay, wallet]);
+
+  const cancel = useCallback(() => {
+    controller.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    attempt.current++;
+    setState(IDLE);
+  }, []);
+
+  return { ...state, pay, cancel, reset };
+}
+
+/**
+ * Adapt @solana/wallet-adapter-react's wallet to the client's WalletInterface
+ *
+ * @param wallet - Result of useWallet()
+ * @returns Wallet interface for ShadowPay.pay()
+ */
+export function toWalletInterface(wallet: WalletContextState): WalletInterface {
+  return {
+    publicKey: wallet.publicKey,
+    connected: wallet.connected,
+    signTransaction: wallet.signTransaction,
+    signAllTransactions: wallet.signAllTransactions,
+    signMessage: wallet.signMessage,
+    name: wallet.wallet?.adapter.name,
+  };
+}
+
+/**
+ * Helper: Status after a lifecycle event
+ */
+function statusAfter(event: PaymentEvent, status: UsePaymentStatus): UsePaymentStatus {
+  switch (event.type) {
+    case 'authorized':
+      return 'authorized';
+    case 'merkle-proof-fetched':
+    case 'proof-started':
+    case 'proof-generated':
+    case 'settlement-submitted':
+      return 'settling';
+    case 'settled':
+      return 'settled';
+    case 'failed':
+      return 'failed';
+    default:
+      return status;
+  }
+}
+
+/**
+ * Helper: Signal that aborts when either input aborts
+ * dispose() removes the listeners from both inputs; it runs by itself once the signal aborts
+ */
+function anySignal(a: AbortSignal, b: AbortSignal): { signal: AbortSignal; dispose: () => void } {
+  if (a.aborted || b.aborted) {
+    return { signal: a.aborted ? a : b, dispose: () => {} };
+  }
+  const controller = new AbortController();
+  const onAbortA = () => abort(a);
+  const onAbortB = () => abort(b);
+  const dispose = () => {
+    a.removeEventListener('abort', onAbortA);
+    b.removeEventListener('abort', onAbortB);
+  };
+  const abort = (signal: AbortSignal) => {
+    dispose();
+    controller.abort(signal.reason);
+  };
+  a.addEventListener('abort', onAbortA, { once: true });
+  b.addEventListener('abort', onAbortB, { once: true });
+  return { signal: controller.signal, dispose };
+}
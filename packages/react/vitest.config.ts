@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'jsdom',
+    // web-worker (the Node prover's Worker polyfill) treats any worker thread as a worker it started
+    pool: 'forks',
+  },
+});
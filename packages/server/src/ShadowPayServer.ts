@@ -3,7 +3,17 @@
  * Simplifies payment verification and webhook handling
  */
 
-import { API_URL, ENDPOINTS } from '@shadowpay/core';
+import {
+  API_URL,
+  ENDPOINTS,
+  getLogger,
+  schema,
+  readJsonResponse,
+  createApiError,
+  ShadowPayError,
+  NetworkError,
+} from '@shadowpay/core';
+import type { Logger } from '@shadowpay/core';
 import { createPaymentMiddleware } from './middleware';
 import { createWebhookHandler } from './webhooks';
 import type { 
@@ -13,6 +23,17 @@ import type {
   VerificationResult,
 } from './types';
 
+const VERIFY_RESPONSE = schema.object({
+  isValid: schema.boolean(),
+  amount: schema.optional(schema.number()),
+  token: schema.optional(schema.string()),
+  nullifier: schema.optional(schema.string()),
+});
+
+const NEW_KEY_RESPONSE = schema.object({
+  api_key: schema.string(),
+});
+
 /**
  * ShadowPay server SDK
  * 
@@ -33,11 +54,15 @@ export class ShadowPay {
   private apiKey: string;
   private webhookSecret?: string;
   private apiUrl: string;
+  private logger: Logger;
+  private fetcher: typeof fetch;
   
   constructor(options: ServerOptions) {
     this.apiKey = options.apiKey;
     this.webhookSecret = options.webhookSecret;
     this.apiUrl = options.apiUrl || API_URL;
+    this.logger = options.logger || getLogger();
+    this.fetcher = options.fetch || ((input, init) => fetch(input, init));
   }
   
   /**
@@ -71,7 +96,7 @@ export class ShadowPay {
       const result = await this.verifyPaymentDetailed(header, requirement);
       return result.isValid;
     } catch (error) {
-      console.error('Payment verification error:', error);
+      this.logger.error('Payment verification error', error);
       return false;
     }
   }
@@ -88,7 +113,7 @@ export class ShadowPay {
     requirement: PaymentRequirement
   ): Promise<VerificationResult> {
     try {
-      const response = await fetch(`${this.apiUrl}${ENDPOINTS.verify}`, {
+      const response = await this.fetcher(`${this.apiUrl}${ENDPOINTS.verify}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -107,19 +132,12 @@ export class ShadowPay {
       });
       
       if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: 'Unknown error' })) as { error?: string };
-        return {
-          isValid: false,
-          message: error.error || response.statusText,
-        };
+        this.logger.warn('Payment verification request failed', { status: response.status });
+        const body = await response.json().catch(() => undefined);
+        throw createApiError(response.status, body, { action: 'Payment verification' });
       }
       
-      const result = await response.json() as {
-        isValid: boolean;
-        amount?: number;
-        token?: string;
-        nullifier?: string;
-      };
+      const result = await readJsonResponse(response, VERIFY_RESPONSE, 'verify response');
       return {
         isValid: result.isValid,
         amount: result.amount,
@@ -127,9 +145,11 @@ export class ShadowPay {
         nullifier: result.nullifier,
       };
     } catch (error) {
+      const failure = toServerError(error, 'during payment verification');
       return {
         isValid: false,
-        message: error instanceof Error ? error.message : 'Unknown error',
+        message: failure.message,
+        code: failure.code,
       };
     }
   }
@@ -153,7 +173,7 @@ export class ShadowPay {
   get webhooks() {
     return {
       handler: (callback: WebhookHandler) => {
-        return createWebhookHandler(this.webhookSecret, callback);
+        return createWebhookHandler(this.webhookSecret, callback, this.logger);
       },
     };
   }
@@ -166,7 +186,7 @@ export class ShadowPay {
    */
   async generateApiKey(walletAddress: string): Promise<string> {
     try {
-      const response = await fetch(`${this.apiUrl}${ENDPOINTS.newKey}`, {
+      const response = await this.fetcher(`${this.apiUrl}${ENDPOINTS.newKey}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -177,16 +197,28 @@ export class ShadowPay {
       });
       
       if (!response.ok) {
-        throw new Error(`Failed to generate API key: ${response.statusText}`);
+        const body = await response.json().catch(() => undefined);
+        throw createApiError(response.status, body, { action: 'API key generation' });
       }
       
-      const result = await response.json() as { api_key: string };
+      const result = await readJsonResponse(response, NEW_KEY_RESPONSE, 'new key response');
       return result.api_key;
     } catch (error) {
-      throw new Error(
-        `API key generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw toServerError(error, 'during API key generation');
     }
   }
 }
 
+/**
+ * Helper: Pass SDK errors through; anything else means no response was received
+ */
+function toServerError(error: unknown, during: string): ShadowPayError {
+  if (error instanceof ShadowPayError) {
+    return error;
+  }
+  return new NetworkError(
+    `Network error ${during}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    error
+  );
+}
+
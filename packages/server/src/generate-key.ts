@@ -3,6 +3,8 @@
  * CLI tool for merchants to generate their API key for receiving payments
  */
 
+import { getLogger, type Logger } from '@shadowpay/core';
+
 export interface GenerateKeyRequest {
   wallet_address: string; // Merchant's Solana wallet address
 }
@@ -16,11 +18,15 @@ export interface GenerateKeyResponse {
  * Generate a new merchant API key
  * 
  * @param walletAddress - Merchant's Solana wallet address
+ * @param logger - Diagnostics (default: SDK-wide logger)
  * @returns API key and merchant ID
  */
-export async function generateMerchantKey(walletAddress: string): Promise<GenerateKeyResponse> {
+export async function generateMerchantKey(
+  walletAddress: string,
+  logger: Logger = getLogger()
+): Promise<GenerateKeyResponse> {
   try {
-    console.log('🔑 Generating API key for wallet:', walletAddress);
+    logger.info('Generating API key', { walletAddress });
     
     const response = await fetch('https://shadow.radr.fun/shadowpay/v1/keys/new', {
       method: 'POST',
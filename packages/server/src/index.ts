@@ -36,11 +36,41 @@ export type {
   GenerateKeyResponse,
 } from './generate-key';
 
+// Sandbox facilitator (offline development and tests)
+export { ShadowPaySandbox } from './sandbox';
+
+export type {
+  SandboxOptions,
+  SandboxPayment,
+  SandboxPaymentStatus,
+  SandboxServer,
+} from './sandbox';
+
+// API errors (re-exported from core, shared with @shadowpay/client)
+export {
+  ShadowPayError,
+  InvalidApiKeyError,
+  RateLimitedError,
+  CommitmentNotRegisteredError,
+  ProofDeadlineExpiredError,
+  NullifierAlreadyUsedError,
+  NetworkError,
+  MalformedResponseError,
+  InvalidMerkleProofError,
+  isShadowPayError,
+} from '@shadowpay/core';
+
+// Logging (re-exported from core)
+export { createConsoleLogger, silentLogger, setLogger } from '@shadowpay/core';
+
 // Re-export core types for convenience
 export type {
   TokenType,
   NetworkType,
   X402PaymentRequirement,
   X402Response,
+  Logger,
+  LogLevel,
+  ShadowPayErrorCode,
 } from '@shadowpay/core';
 
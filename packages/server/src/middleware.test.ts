@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ShadowPay } from './ShadowPayServer';
+import { ShadowPaySandbox } from './sandbox';
+import { parsePaymentHeader } from './middleware';
+import type { ShadowPayRequest } from './types';
+
+const MERCHANT_WALLET = 'MerchantWallet1111111111111111111111111111';
+const USER_WALLET = 'UserWallet11111111111111111111111111111111';
+
+let sandbox: ShadowPaySandbox;
+let apiKey: string;
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  sandbox = new ShadowPaySandbox();
+  apiKey = sandbox.createMerchant(MERCHANT_WALLET);
+  await sandbox.registerWallet(USER_WALLET);
+
+  const shadowpay = new ShadowPay({ apiKey, fetch: sandbox.fetch });
+  const app = express();
+  app.get('/premium', shadowpay.requirePayment({ amount: 0.001, token: 'SOL' }), (req, res) => {
+    res.json({ content: 'premium', payment: (req as ShadowPayRequest).shadowpay });
+  });
+
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/premium`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+/**
+ * Authorize a payment with the sandbox, as ShadowPay.pay() does on the client
+ */
+async function authorize(commitment: string): Promise<{ accessToken: string; commitment: string }> {
+  const response = await sandbox.fetch('https://sandbox.test/shadowpay/v1/payment/authorize', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+    body: JSON.stringify({
+      user_wallet: USER_WALLET,
+      merchant: MERCHANT_WALLET,
+      amount: 1_000_000,
+      payment_commitment: commitment,
+      payment_nullifier: `nullifier-${commitment}`,
+    }),
+  });
+  const auth = await response.json();
+  return { accessToken: auth.access_token, commitment: auth.commitment };
+}
+
+/**
+ * X-PAYMENT header in the shape the client's encodePaymentHeader() builds
+ */
+function paymentHeader(payment: { accessToken: string; commitment: string }): string {
+  return Buffer.from(JSON.stringify({
+    x402Version: 1,
+    scheme: 'zkproof',
+    network: 'solana-mainnet',
+    payload: payment,
+  })).toString('base64');
+}
+
+describe('createPaymentMiddleware', () => {
+  it('answers an unpaid request with an x402 challenge', async () => {
+    const response = await fetch(url);
+    expect(response.status).toBe(402);
+    const challenge = await response.json();
+    expect(challenge.x402Version).toBe(1);
+    expect(challenge.accepts).toEqual([expect.objectContaining({
+      scheme: 'zkproof',
+      network: 'solana-mainnet',
+      maxAmountRequired: '0.001',
+      resource: '/premium',
+      payTo: apiKey,
+      extra: expect.objectContaining({ token: 'SOL' }),
+    })]);
+  });
+
+  it('serves the route for a valid X-PAYMENT header', async () => {
+    const payment = await authorize('111');
+    const response = await fetch(url, { headers: { 'X-PAYMENT': paymentHeader(payment) } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      content: 'premium',
+      payment: { verified: true, amount: 0.001, token: 'SOL' },
+    });
+  });
+
+  it('rejects a header for an unknown payment', async () => {
+    const header = paymentHeader({ accessToken: 'sbx_unknown', commitment: '222' });
+    const response = await fetch(url, { headers: { 'X-PAYMENT': header } });
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({ error: 'Invalid payment' });
+  });
+
+  it('does not accept an access token on its own', async () => {
+    const payment = await authorize('333');
+    const response = await fetch(url, { headers: { 'X-Access-Token': payment.accessToken } });
+    expect(response.status).toBe(402);
+  });
+});
+
+describe('parsePaymentHeader', () => {
+  it('decodes a base64 payment header', () => {
+    const payment = { accessToken: 'token', commitment: '1' };
+    expect(parsePaymentHeader(paymentHeader(payment))).toMatchObject({ scheme: 'zkproof', payload: payment });
+  });
+
+  it('rejects a header that is not base64 JSON', () => {
+    expect(() => parsePaymentHeader('not a header')).toThrow('Invalid payment header format');
+  });
+});
@@ -38,6 +38,7 @@ export function createPaymentMiddleware(
           payTo: apiKey,
           maxTimeoutSeconds: 300,
           extra: {
+            token: requirement.token || 'SOL',
             zkCircuit: 'shadowpay-elgamal-v3',
             privacyFeatures: ['zero-knowledge proofs', 'encrypted amounts'],
             facilitatorUrl: 'https://shadow.radr.fun',
@@ -0,0 +1,552 @@
+/**
+ * Sandbox facilitator for offline development and tests
+ * Implements the ShadowPay API in-process with deterministic fake data
+ */
+
+import crypto from 'crypto';
+import {
+  ENDPOINTS,
+  TOKENS,
+  computeSenderCommitment,
+  getLogger,
+  IncrementalMerkleTree,
+  type Logger,
+} from '@shadowpay/core';
+import type { WebhookEvent } from './types';
+
+export interface SandboxOptions {
+  seed?: string; // Seed for keys, tokens and signatures (default: 'shadowpay-sandbox')
+  treeDepth?: number; // ShadowID tree depth (default: 20)
+  accessTokenTtl?: number; // Seconds an access token stays valid (default: 3600)
+  proofWindow?: number; // Seconds to settle after authorization (default: 600)
+  now?: () => number; // Clock in ms (default: Date.now)
+  webhook?: {
+    url: string; // Receives payment.success when a payment settles
+    secret: string; // Signs the X-SHADOWPAY-SIGNATURE header
+  };
+  verifyProof?: (proof: string, publicSignals: string[]) => boolean | Promise<boolean>; // Default: accept any proof
+  fetch?: typeof fetch; // Used to deliver webhooks (default: global fetch)
+  logger?: Logger;
+}
+
+export type SandboxPaymentStatus = 'authorized' | 'settling' | 'settled';
+
+export interface SandboxPayment {
+  commitment: string;
+  nullifier: string;
+  accessToken: string;
+  apiKey: string;
+  userWallet: string;
+  merchantWallet: string;
+  amount: number; // Lamports
+  status: SandboxPaymentStatus;
+  expiresAt: number; // Unix timestamp (s)
+  proofDeadline: number; // Unix timestamp (s)
+  signature?: string; // Fake settlement transaction (when settled)
+  settlementTime?: number; // Unix timestamp (s)
+}
+
+export interface SandboxServer {
+  url: string; // e.g. http://127.0.0.1:53124
+  close(): Promise<void>;
+}
+
+const BN254_FIELD_MODULUS = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/**
+ * In-process ShadowPay facilitator
+ * Point a client or server at it with `fetch: sandbox.fetch` (any apiUrl) or `apiUrl` from listen()
+ *
+ * Payments have no token on the wire, so webhooks report them as SOL
+ *
+ * @example
+ * ```typescript
+ * const sandbox = new ShadowPaySandbox({ webhook: { url: 'http://localhost:3000/webhooks', secret } });
+ * const merchantKey = sandbox.createMerchant(merchantWallet);
+ *
+ * const client = new ShadowPay({ merchantKey, merchantWallet, keyStore: new MemoryKeyStore(), fetch: sandbox.fetch });
+ * const server = new ShadowPayServer({ apiKey: merchantKey, fetch: sandbox.fetch });
+ *
+ * const payment = await client.pay({ amount: 0.001, wallet });
+ * await sandbox.settle(payment.commitment); // Settle without generating a proof
+ * ```
+ */
+export class ShadowPaySandbox {
+  private options: SandboxOptions;
+  private seed: string;
+  private logger: Logger;
+  private tree: IncrementalMerkleTree;
+  private merchants = new Map<string, string>(); // API key → wallet
+  private commitments = new Map<string, string>(); // Wallet → ShadowID commitment (0x hex)
+  private payments = new Map<string, SandboxPayment>(); // Commitment → payment
+  private nullifiers = new Set<string>();
+
+  constructor(options: SandboxOptions = {}) {
+    this.options = options;
+    this.seed = options.seed || 'shadowpay-sandbox';
+    this.logger = options.logger || getLogger();
+    this.tree = new IncrementalMerkleTree({ depth: options.treeDepth });
+  }
+
+  /**
+   * fetch() that answers ShadowPay API requests from this sandbox, whatever the host
+   */
+  fetch: typeof fetch = async (input, init) => {
+    return this.handle(new Request(input, init));
+  };
+
+  /**
+   * Serve the sandbox over HTTP (for clients in other processes or browsers)
+   *
+   * @param port - Port (default: any free port)
+   * @param host - Interface (default: 127.0.0.1)
+   * @returns Base URL to use as apiUrl, and close()
+   */
+  async listen(port: number = 0, host: string = '127.0.0.1'): Promise<SandboxServer> {
+    const http = await import('http');
+
+    const server = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+      const body = chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+
+      const response = await this.handle(new Request(`http://${host}${req.url}`, {
+        method: req.method,
+        headers: req.headers as Record<string, string>,
+        body: req.method === 'GET' || req.method === 'HEAD' ? undefined : body,
+      }));
+
+      res.writeHead(response.status, {
+        ...Object.fromEntries(response.headers),
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': '*',
+      });
+      res.end(Buffer.from(await response.arrayBuffer()));
+    });
+
+    await new Promise<void>(resolve => server.listen(port, host, resolve));
+    const address = server.address() as { port: number };
+
+    return {
+      url: `http://${host}:${address.port}`,
+      close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+    };
+  }
+
+  /**
+   * Route a request to the matching endpoint
+   *
+   * @param request - ShadowPay API request
+   * @returns JSON response
+   */
+  async handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    const method = request.method.toUpperCase();
+
+    try {
+      if (method === 'OPTIONS') {
+        return new Response(null, { status: 204 });
+      }
+      if (method === 'POST' && pathname === '/shadowpay/api/shadowid/auto-register') {
+        return await this.handleRegister(request);
+      }
+      if (method === 'POST' && pathname === '/shadowpay/v1/payment/authorize') {
+        return await this.handleAuthorize(request);
+      }
+      if (method === 'POST' && pathname === '/shadowpay/v1/payment/settle') {
+        return await this.handleSettle(request);
+      }
+      if (method === 'GET' && pathname === '/shadowpay/v1/payment/verify-access') {
+        return this.handleVerifyAccess(request);
+      }
+      if (method === 'GET' && pathname.startsWith('/shadowpay/shadowid/v1/merkle/proof/')) {
+        return await this.handleMerkleProof(pathname.slice('/shadowpay/shadowid/v1/merkle/proof/'.length));
+      }
+      if (method === 'POST' && pathname === ENDPOINTS.verify) {
+        return await this.handleVerify(request);
+      }
+      if (method === 'POST' && pathname === ENDPOINTS.newKey) {
+        return await this.handleNewKey(request);
+      }
+      if (method === 'GET' && pathname === ENDPOINTS.keyInfo) {
+        return this.handleKeyInfo(request);
+      }
+      if (method === 'GET' && pathname === ENDPOINTS.supported) {
+        return json(200, {
+          tokens: Object.values(TOKENS).map(({ symbol, mint, decimals }) => ({ symbol, mint, decimals })),
+        });
+      }
+      return json(404, { error: `No sandbox route for ${method} ${pathname}` });
+    } catch (error) {
+      this.logger.error('Sandbox request failed', error);
+      return json(500, { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  /**
+   * Register a merchant and get its API key (same wallet, same key)
+   *
+   * @param walletAddress - Merchant's receiving wallet
+   * @returns API key
+   */
+  createMerchant(walletAddress: string): string {
+    const apiKey = `sk_sandbox_${this.derive('api-key', walletAddress).slice(0, 32)}`;
+    this.merchants.set(apiKey, walletAddress);
+    return apiKey;
+  }
+
+  /**
+   * @returns The ShadowID tree (e.g. to compare roots in tests)
+   */
+  get merkleTree(): IncrementalMerkleTree {
+    return this.tree;
+  }
+
+  /**
+   * Add a wallet to the ShadowID tree
+   *
+   * @param walletAddress - Payer's wallet
+   * @returns ShadowID commitment (0x hex)
+   */
+  async registerWallet(walletAddress: string): Promise<string> {
+    const existing = this.commitments.get(walletAddress);
+    if (existing) {
+      return existing;
+    }
+
+    const secret = BigInt('0x' + this.derive('shadowid-secret', walletAddress)) % BN254_FIELD_MODULUS;
+    const commitment = BigInt(await computeSenderCommitment(walletAddress, '0x' + secret.toString(16)));
+    await this.tree.insert(commitment);
+
+    const hex = toHex(commitment);
+    this.commitments.set(walletAddress, hex);
+    return hex;
+  }
+
+  /**
+   * Look up a payment
+   *
+   * @param commitmentOrAccessToken - Payment commitment or access token
+   * @returns Payment, or null if unknown
+   */
+  getPayment(commitmentOrAccessToken: string): SandboxPayment | null {
+    const byCommitment = this.payments.get(commitmentOrAccessToken);
+    if (byCommitment) {
+      return { ...byCommitment };
+    }
+    const byToken = Array.from(this.payments.values()).find(p => p.accessToken === commitmentOrAccessToken);
+    return byToken ? { ...byToken } : null;
+  }
+
+  /**
+   * @returns Every payment, in authorization order
+   */
+  listPayments(): SandboxPayment[] {
+    return Array.from(this.payments.values(), payment => ({ ...payment }));
+  }
+
+  /**
+   * Settle a payment without a proof (e.g. to test fulfilment or webhooks)
+   *
+   * @param commitment - Payment commitment
+   * @returns Settled payment
+   */
+  async settle(commitment: string): Promise<SandboxPayment> {
+    const payment = this.payments.get(commitment);
+    if (!payment) {
+      throw new Error(`Unknown payment ${commitment}`);
+    }
+    if (payment.status !== 'settled') {
+      payment.status = 'settled';
+      payment.signature = this.derive('signature', commitment);
+      payment.settlementTime = this.nowSeconds();
+
+      await this.emitWebhook('payment.success', {
+        tx_hash: payment.signature,
+        amount: payment.amount,
+        token: 'SOL',
+        recipient: payment.merchantWallet,
+        nullifier: payment.nullifier,
+        timestamp: payment.settlementTime,
+      });
+    }
+    return { ...payment };
+  }
+
+  /**
+   * Sign a webhook event the way the ShadowPay backend does
+   *
+   * @param event - Webhook event
+   * @param secret - Webhook secret shared with the merchant
+   * @returns JSON body and its X-SHADOWPAY-SIGNATURE value
+   */
+  signWebhook(event: WebhookEvent, secret: string): { body: string; signature: string } {
+    const body = JSON.stringify(event);
+    return { body, signature: crypto.createHmac('sha256', secret).update(body).digest('hex') };
+  }
+
+  /**
+   * Deliver a signed webhook to the configured URL
+   * Delivery failures are logged, not thrown
+   *
+   * @param type - Event type
+   * @param data - Event data
+   * @returns Delivery response, or null without a webhook URL or on failure
+   */
+  async emitWebhook(type: WebhookEvent['type'], data: WebhookEvent['data']): Promise<Response | null> {
+    const webhook = this.options.webhook;
+    if (!webhook) {
+      return null;
+    }
+
+    const { body, signature } = this.signWebhook({ type, data, timestamp: this.nowSeconds() }, webhook.secret);
+    const fetcher = this.options.fetch || fetch;
+
+    try {
+      return await fetcher(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-SHADOWPAY-SIGNATURE': signature,
+        },
+        body,
+      });
+    } catch (error) {
+      this.logger.warn('Sandbox webhook delivery failed', error);
+      return null;
+    }
+  }
+
+  /**
+   * Forget all merchants, registrations and payments
+   */
+  reset(): void {
+    this.merchants.clear();
+    this.commitments.clear();
+    this.payments.clear();
+    this.nullifiers.clear();
+    this.tree = new IncrementalMerkleTree({ depth: this.options.treeDepth });
+  }
+
+  private async handleRegister(request: Request): Promise<Response> {
+    const body = await readJson(request);
+    if (typeof body.wallet_address !== 'string' || !body.wallet_address) {
+      return json(400, { error: 'wallet_address is required' });
+    }
+    const registered = !this.commitments.has(body.wallet_address);
+    const commitment = await this.registerWallet(body.wallet_address);
+    return json(200, { registered, commitment });
+  }
+
+  private async handleAuthorize(request: Request): Promise<Response> {
+    const apiKey = request.headers.get('X-API-Key') || '';
+    const merchantWallet = this.merchants.get(apiKey);
+    if (!merchantWallet) {
+      return json(401, { error: 'Invalid API key' });
+    }
+
+    const body = await readJson(request);
+    if (body.merchant !== merchantWallet) {
+      return json(400, { error: 'merchant does not match the wallet registered for this API key' });
+    }
+    if (!this.commitments.has(body.user_wallet)) {
+      return json(400, { error: 'Wallet is not registered with ShadowID' });
+    }
+    if (!Number.isInteger(body.amount) || body.amount <= 0) {
+      return json(400, { error: 'amount must be a positive integer (lamports)' });
+    }
+    if (typeof body.payment_commitment !== 'string' || typeof body.payment_nullifier !== 'string') {
+      return json(400, { error: 'payment_commitment and payment_nullifier are required' });
+    }
+
+    // Retried requests with the same commitment get the same authorization
+    const existing = this.payments.get(body.payment_commitment);
+    if (existing) {
+      return json(200, authorizeResponse(existing));
+    }
+    if (this.nullifiers.has(body.payment_nullifier)) {
+      return json(409, { error: 'Nullifier already used' });
+    }
+
+    const now = this.nowSeconds();
+    const payment: SandboxPayment = {
+      commitment: body.payment_commitment,
+      nullifier: body.payment_nullifier,
+      accessToken: `sbx_${this.derive('access-token', body.payment_commitment).slice(0, 40)}`,
+      apiKey,
+      userWallet: body.user_wallet,
+      merchantWallet,
+      amount: body.amount,
+      status: 'authorized',
+      expiresAt: now + (this.options.accessTokenTtl ?? 3600),
+      proofDeadline: now + (this.options.proofWindow ?? 600),
+    };
+    this.payments.set(payment.commitment, payment);
+    this.nullifiers.add(payment.nullifier);
+
+    return json(200, authorizeResponse(payment));
+  }
+
+  private async handleSettle(request: Request): Promise<Response> {
+    const body = await readJson(request);
+    const payment = this.payments.get(body.commitment);
+    if (!payment) {
+      return json(404, { error: 'Unknown commitment' });
+    }
+    if (payment.status === 'settled') {
+      return json(200, { success: true, signature: payment.signature, settlement_time: payment.settlementTime });
+    }
+    if (this.nowSeconds() > payment.proofDeadline) {
+      return json(400, { error: 'Proof deadline passed' });
+    }
+    if (typeof body.proof !== 'string' || !Array.isArray(body.public_signals)) {
+      return json(400, { error: 'proof and public_signals are required' });
+    }
+
+    payment.status = 'settling';
+    const valid = this.options.verifyProof
+      ? await this.options.verifyProof(body.proof, body.public_signals)
+      : true;
+    if (!valid) {
+      payment.status = 'authorized';
+      return json(400, { error: 'Invalid proof' });
+    }
+
+    const settled = await this.settle(payment.commitment);
+    return json(200, { success: true, signature: settled.signature, settlement_time: settled.settlementTime });
+  }
+
+  private handleVerifyAccess(request: Request): Response {
+    const payment = this.findByAccessToken(request.headers.get('X-Access-Token'));
+    if (!payment) {
+      return json(401, { error: 'Invalid access token' });
+    }
+
+    const expired = this.nowSeconds() > payment.expiresAt;
+    return json(200, {
+      authorized: !expired,
+      reason: expired ? 'Access token expired' : 'ok',
+      settlement_status: payment.status,
+      commitment: payment.commitment,
+    });
+  }
+
+  private async handleMerkleProof(commitmentHex: string): Promise<Response> {
+    let leaf: bigint;
+    try {
+      leaf = BigInt('0x' + commitmentHex.replace(/^0x/, ''));
+    } catch (error) {
+      return json(400, { error: 'Commitment must be hex' });
+    }
+
+    const index = this.tree.indexOf(leaf);
+    if (index < 0) {
+      return json(404, { error: 'Commitment not found in merkle tree' });
+    }
+
+    // Like the ShadowID API: hex without a 0x prefix
+    const proof = await this.tree.proof(index);
+    return json(200, {
+      root: toHex(proof.root).slice(2),
+      siblings: proof.siblings.map(sibling => toHex(sibling).slice(2)),
+      pathIndices: proof.pathIndices,
+    });
+  }
+
+  private async handleVerify(request: Request): Promise<Response> {
+    const apiKey = (request.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    if (!this.merchants.has(apiKey)) {
+      return json(401, { error: 'Invalid API key' });
+    }
+
+    const body = await readJson(request);
+    let accessToken: string | undefined;
+    try {
+      accessToken = JSON.parse(Buffer.from(String(body.paymentHeader), 'base64').toString('utf-8'))?.payload?.accessToken;
+    } catch (error) {
+      return json(400, { error: 'Invalid payment header' });
+    }
+
+    const payment = this.findByAccessToken(accessToken);
+    if (!payment || payment.apiKey !== apiKey) {
+      return json(200, { isValid: false });
+    }
+    if (this.nowSeconds() > payment.expiresAt) {
+      return json(200, { isValid: false });
+    }
+    return json(200, { isValid: true, amount: payment.amount, token: 'SOL', nullifier: payment.nullifier });
+  }
+
+  private async handleNewKey(request: Request): Promise<Response> {
+    const body = await readJson(request);
+    if (typeof body.wallet_address !== 'string' || !body.wallet_address) {
+      return json(400, { error: 'wallet_address is required' });
+    }
+    const apiKey = this.createMerchant(body.wallet_address);
+    return json(200, { api_key: apiKey, merchant_id: `merchant_${this.derive('merchant-id', apiKey).slice(0, 12)}` });
+  }
+
+  private handleKeyInfo(request: Request): Response {
+    const apiKey = request.headers.get('X-API-Key') || '';
+    const wallet = this.merchants.get(apiKey);
+    if (!wallet) {
+      return json(404, { error: 'Unknown API key' });
+    }
+    return json(200, {
+      api_key: apiKey,
+      rps_limit: 100,
+      daily_commit_limit: 10_000,
+      wallet_address: wallet,
+      treasury_wallet: wallet,
+    });
+  }
+
+  private findByAccessToken(accessToken: string | null | undefined): SandboxPayment | undefined {
+    if (!accessToken) {
+      return undefined;
+    }
+    return Array.from(this.payments.values()).find(p => p.accessToken === accessToken);
+  }
+
+  private nowSeconds(): number {
+    return Math.floor((this.options.now || Date.now)() / 1000);
+  }
+
+  /**
+   * Helper: Deterministic hex value for a purpose and input
+   */
+  private derive(purpose: string, input: string): string {
+    return crypto.createHash('sha256').update(`${this.seed}:${purpose}:${input}`).digest('hex');
+  }
+}
+
+function authorizeResponse(payment: SandboxPayment) {
+  return {
+    commitment: payment.commitment,
+    nullifier: payment.nullifier,
+    access_token: payment.accessToken,
+    expires_at: payment.expiresAt,
+    proof_deadline: payment.proofDeadline,
+  };
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function readJson(request: Request): Promise<Record<string, any>> {
+  try {
+    return (await request.json()) as Record<string, any>;
+  } catch (error) {
+    return {};
+  }
+}
+
+function toHex(value: bigint): string {
+  return '0x' + value.toString(16).padStart(64, '0');
+}
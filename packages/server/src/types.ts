@@ -3,11 +3,14 @@
  */
 
 import type { Request } from 'express';
+import type { Logger, ShadowPayErrorCode } from '@shadowpay/core';
 
 export interface ServerOptions {
   apiKey: string;
   webhookSecret?: string;
   apiUrl?: string;
+  logger?: Logger; // SDK diagnostics (default: silent, see setLogger())
+  fetch?: typeof fetch; // fetch used for ShadowPay API calls, e.g. a sandbox's (default: global fetch)
 }
 
 export interface PaymentRequirement {
@@ -47,5 +50,6 @@ export interface VerificationResult {
   token?: string;
   nullifier?: string;
   message?: string;
+  code?: ShadowPayErrorCode; // Why verification could not be completed (unset when the API answered)
 }
 
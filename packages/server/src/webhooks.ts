@@ -5,6 +5,7 @@
 
 import crypto from 'crypto';
 import type { Request, Response } from 'express';
+import { getLogger, type Logger } from '@shadowpay/core';
 import type { WebhookEvent, WebhookHandler } from './types';
 
 /**
@@ -43,11 +44,13 @@ export function verifyWebhookSignature(
  * 
  * @param webhookSecret - Webhook secret for signature verification
  * @param callback - User's webhook handler function
+ * @param logger - Receives handler errors (default: SDK-wide logger)
  * @returns Express handler
  */
 export function createWebhookHandler(
   webhookSecret: string | undefined,
-  callback: WebhookHandler
+  callback: WebhookHandler,
+  logger: Logger = getLogger()
 ) {
   return async (req: Request, res: Response) => {
     // Verify webhook signature if secret is provided
@@ -65,6 +68,7 @@ export function createWebhookHandler(
       const isValid = verifyWebhookSignature(body, signature, webhookSecret);
       
       if (!isValid) {
+        logger.warn('Rejected webhook with invalid signature');
         return res.status(401).json({
           error: 'Invalid signature',
           message: 'Webhook signature verification failed',
@@ -81,7 +85,7 @@ export function createWebhookHandler(
       
       return res.json({ received: true });
     } catch (error) {
-      console.error('Webhook handler error:', error);
+      logger.error('Webhook handler error', error);
       return res.status(500).json({
         error: 'Webhook processing failed',
         message: error instanceof Error ? error.message : 'Unknown error',
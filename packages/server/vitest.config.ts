@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    // web-worker (loaded with snarkjs through @shadowpay/core) treats any worker thread as a worker it started
+    pool: 'forks',
+  },
+});
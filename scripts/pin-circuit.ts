@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Release tool: pin a hosted circuit version
+ * Downloads the version's wasm, zkey and vkey, writes their SHA-256 digests into CIRCUIT_INTEGRITY
+ * (packages/core/src/constants.ts) and bundles the verification key in VERIFICATION_KEYS
+ * (packages/core/src/verification-keys.ts). Clients reject hosted artifacts without a digest, so run
+ * this whenever the circuit is published or updated, and commit the result
+ *
+ * Usage:
+ *   npx tsx scripts/pin-circuit.ts [version]
+ */
+
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { CIRCUIT_VERSIONS } from '../packages/core/src/constants';
+import { PAYMENT_PUBLIC_SIGNALS } from '../packages/core/src/verification-keys';
+import type { CircuitArtifactName, CircuitVersion } from '../packages/core/src/constants';
+
+const CONSTANTS_PATH = join(__dirname, '../packages/core/src/constants.ts');
+const VERIFICATION_KEYS_PATH = join(__dirname, '../packages/core/src/verification-keys.ts');
+const ARTIFACTS: CircuitArtifactName[] = ['wasm', 'zkey', 'vkey'];
+
+async function main() {
+  const version = (process.argv[2] || 'elgamal') as CircuitVersion;
+  if (!(version in CIRCUIT_VERSIONS)) {
+    console.error(`❌ Unknown circuit version "${version}" (known: ${Object.keys(CIRCUIT_VERSIONS).join(', ')})`);
+    process.exit(1);
+  }
+
+  const digests: Partial<Record<CircuitArtifactName, string>> = {};
+  let vkeyBytes = new Uint8Array();
+  for (const name of ARTIFACTS) {
+    const url = CIRCUIT_VERSIONS[version][name];
+    console.log(`📥 ${name}: ${url}`);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${name}: HTTP ${response.status} ${response.statusText}`);
+    }
+    const data = new Uint8Array(await response.arrayBuffer());
+    digests[name] = createHash('sha256').update(data).digest('hex');
+    console.log(`   sha256 ${digests[name]}`);
+    if (name === 'vkey') {
+      vkeyBytes = data;
+    }
+  }
+
+  // The decoded signal names are only right if the key has exactly one public signal per name
+  const vkey = JSON.parse(new TextDecoder().decode(vkeyBytes));
+  const layout = PAYMENT_PUBLIC_SIGNALS[version];
+  if (vkey.protocol !== 'groth16' || vkey.curve !== 'bn128') {
+    throw new Error(`Expected a groth16/bn128 verification key, got ${vkey.protocol}/${vkey.curve}`);
+  }
+  if (vkey.nPublic !== layout.length || vkey.IC?.length !== layout.length + 1) {
+    throw new Error(
+      `Verification key has ${vkey.nPublic} public signals but PAYMENT_PUBLIC_SIGNALS.${version} names ${layout.length} ` +
+      `(${layout.join(', ')}); update it from the circuit (outputs first, then public inputs in declaration order)`
+    );
+  }
+
+  const entry = [
+    `  ${version}: {`,
+    ...ARTIFACTS.map(name => `    ${name}: '${digests[name]}',`),
+    '  },',
+  ].join('\n');
+
+  await replaceEntry(CONSTANTS_PATH, 'CIRCUIT_INTEGRITY', version, entry);
+
+  const keyEntry = `  ${version}: ${JSON.stringify(vkey, null, 2).replace(/\n/g, '\n  ')},`;
+  await replaceEntry(VERIFICATION_KEYS_PATH, 'VERIFICATION_KEYS', version, keyEntry);
+
+  console.log('');
+  console.log(`✅ Pinned ${version} in packages/core/src/constants.ts and packages/core/src/verification-keys.ts`);
+}
+
+/**
+ * Helper: Replace (or add) one version's entry in an exported `{ version: ... }` record
+ * Entries are `  version: undefined,` or a value whose closing brace is the only thing on a line indented two spaces
+ */
+async function replaceEntry(filePath: string, constant: string, version: string, entry: string): Promise<void> {
+  const source = await readFile(filePath, 'utf-8');
+  const block = new RegExp(`(export const ${constant}[^=]*= \\{\\n)([\\s\\S]*?)(\\n\\};)`);
+  const match = source.match(block);
+  if (!match) {
+    throw new Error(`${constant} not found in ${filePath}`);
+  }
+
+  const existing = new RegExp(`^  ${version}: (undefined|\\{[\\s\\S]*?^  \\}),$`, 'm');
+  const body = existing.test(match[2]) ? match[2].replace(existing, () => entry) : `${match[2]}\n${entry}`;
+  await writeFile(filePath, source.replace(block, (_, head, _body, tail) => `${head}${body}${tail}`));
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});